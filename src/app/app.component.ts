@@ -3,26 +3,53 @@ import { Router, NavigationEnd, RouterOutlet } from '@angular/router';
 import { filter } from 'rxjs/operators';
 import { CommonModule } from '@angular/common';
 import { AppBarComponent } from './components/app-bar/app-bar.component';
+import { LockScreenComponent } from './components/lock-screen/lock-screen.component';
+import { ProgressBarComponent } from './components/shared/progress-bar/progress-bar.component';
+import { AuthService } from './services/auth.service';
+import { ToastService } from './services/toast.service';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, RouterOutlet, AppBarComponent],
+  imports: [CommonModule, RouterOutlet, AppBarComponent, LockScreenComponent, ProgressBarComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.css']
 })
 export class AppComponent {
   title = 'cms';
-  
+
   // Always show app-bar but pass current route to it
   currentRoute = '';
 
-  constructor(private router: Router) {
+  constructor(
+    private router: Router,
+    private authService: AuthService,
+    private toastService: ToastService
+  ) {
     // Listen to route changes to pass current route to app-bar
     this.router.events
       .pipe(filter(event => event instanceof NavigationEnd))
       .subscribe((event: NavigationEnd) => {
         this.currentRoute = event.url;
       });
+
+    // React to sessions started or ended in other tabs
+    this.authService.sessionSync.subscribe(syncEvent => {
+      switch (syncEvent) {
+        case 'logout':
+          this.toastService.showInfo('You have been signed out in another tab.');
+          this.router.navigate(['/auth']);
+          break;
+        case 'login':
+          // Leave the login page, or drop another user's data if the account changed
+          this.router.navigate(['/']);
+          break;
+        case 'user-updated':
+          this.toastService.showInfo('Your account details have been updated.');
+          // Re-run route guards in case the role change removed access to this page
+          this.router.navigateByUrl(this.router.url, { onSameUrlNavigation: 'reload' });
+          break;
+      }
+    });
   }
 }
@@ -1,21 +1,34 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { APP_INITIALIZER, ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideAnimations } from '@angular/platform-browser/animations';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideClientHydration } from '@angular/platform-browser';
-import { HTTP_INTERCEPTORS } from '@angular/common/http';
 import { authInterceptor } from './interceptors/auth.interceptor';
+import { timeoutInterceptor } from './interceptors/timeout.interceptor';
+import { loadingInterceptor } from './interceptors/loading.interceptor';
+import { APP_CONFIG, AppConfigService } from './services/app-config.service';
 
 import { routes } from './app.routes';
 
 export const appConfig: ApplicationConfig = {
   providers: [
-    provideZoneChangeDetection({ eventCoalescing: true }), 
-    provideRouter(routes), 
-    provideHttpClient(withInterceptors([authInterceptor])),
+    provideZoneChangeDetection({ eventCoalescing: true }),
+    provideRouter(routes),
+    // Add HTTP interceptors for the progress bar, authentication and request timeouts
+    provideHttpClient(withInterceptors([loadingInterceptor, authInterceptor, timeoutInterceptor])),
     provideAnimations(), // Required for animations
     provideClientHydration(),
-    // Add HTTP interceptor for authentication
-  
+    // Load runtime configuration (public/config.json) before the app starts
+    {
+      provide: APP_INITIALIZER,
+      useFactory: (configService: AppConfigService) => () => configService.load(),
+      deps: [AppConfigService],
+      multi: true
+    },
+    {
+      provide: APP_CONFIG,
+      useFactory: (configService: AppConfigService) => configService.config,
+      deps: [AppConfigService]
+    }
   ]
 };
@@ -5,22 +5,67 @@ import { CmsComponent } from './pages/cms/cms.component';
 import { ProductsComponent } from './pages/products/products.component';
 import { InventoryComponent } from './pages/inventory/inventory.component';
 import { OrdersComponent } from './pages/orders/orders.component';
+import { CheckoutComponent } from './pages/checkout/checkout.component';
 import { ReportsComponent } from './pages/reports/reports.component';
+import { UsersComponent } from './pages/users/users.component';
+import { ForbiddenComponent } from './pages/forbidden/forbidden.component';
 import { AuthGuard } from './guards/auth.guard';
 import { RoleGuard } from './guards/role.guard';
-import { Role } from './models/auth.model';
 
+// Routes declare the permissions they need in `data.permissions`; RoleGuard checks them
+// against the same table RoleService uses, and re-runs them when the user's role changes
 export const routes: Routes = [
     { path: 'auth', component: AuthComponent },
     { path: '', component: HomeComponent, canActivate: [AuthGuard] },
-    { path: 'cms', component: CmsComponent, canActivate: [AuthGuard] },
-    { path: 'products', component: ProductsComponent, canActivate: [AuthGuard] },
-    { path: 'inventory', component: InventoryComponent, canActivate: [AuthGuard] },
-    { path: 'orders', component: OrdersComponent, canActivate: [AuthGuard] },
-    { 
-        path: 'reports', 
-        component: ReportsComponent, 
-        canActivate: [AuthGuard] // Now accessible to all authenticated users
+    {
+        path: 'cms',
+        component: CmsComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['clients:view'] }
     },
+    {
+        path: 'products',
+        component: ProductsComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['products:view'] }
+    },
+    {
+        path: 'inventory',
+        component: InventoryComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['inventory:view'] }
+    },
+    {
+        path: 'orders',
+        component: OrdersComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['orders:view'] }
+    },
+    {
+        path: 'checkout',
+        component: CheckoutComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['orders:create'] }
+    },
+    {
+        path: 'reports',
+        component: ReportsComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['reports:view'] }
+    },
+    {
+        path: 'users',
+        component: UsersComponent,
+        canActivate: [AuthGuard, RoleGuard],
+        runGuardsAndResolvers: 'always',
+        data: { permissions: ['users:view'] }
+    },
+    { path: 'forbidden', component: ForbiddenComponent, canActivate: [AuthGuard] },
     { path: '**', redirectTo: 'auth' }
 ];
@@ -1,14 +1,26 @@
-import { Component, EventEmitter, Input, Output, OnInit, OnDestroy } from '@angular/core';
+import { Component, EventEmitter, Inject, Input, Output, OnInit, OnDestroy } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
-import { Subject, takeUntil } from 'rxjs';
-import { OrderItemForm } from '../../models/order.model';
+import { Observable, Subject, forkJoin, map, of, takeUntil } from 'rxjs';
+import { AppConfig } from '../../models/app-config.model';
+import { HeldCart, OrderDraft } from '../../models/held-cart.model';
+import { Discount, OrderItemForm, OrderRequest, TaxMode } from '../../models/order.model';
+import { ProductLookup } from '../../models/product.model';
+import { APP_CONFIG } from '../../services/app-config.service';
+import { HeldCartService } from '../../services/held-cart.service';
+import { InventoryService } from '../../services/inventory.service';
 import { OrderService } from '../../services/order.service';
+import { RoleService } from '../../services/role.service';
 import { ToastService } from '../../services/toast.service';
+import { LineAmounts, OrderTotals, TaxOptions, calculateOrder, discountAmount, discountPercent } from '../../utils/pricing.util';
 
 /**
  * Modal component for adding new orders
- * Allows adding multiple order items with barcode, quantity, and MRP
+ * Allows adding multiple order items with barcode, quantity, and selling price;
+ * a validated barcode fills in the product's MRP, which the price may not exceed
+ * unless a supervisor overrides it. Lines and the whole order can be discounted up to the
+ * user's role cap, and GST is worked out per line from the product's rate.
+ * Carts can be held under a name and resumed later
  */
 @Component({
   selector: 'add-order-modal',
@@ -20,12 +32,18 @@ import { ToastService } from '../../services/toast.service';
 export class AddOrderModalComponent implements OnInit, OnDestroy {
   @Input() show = false;
   @Output() showChange = new EventEmitter<boolean>();
-  @Output() orderCreated = new EventEmitter<OrderItemForm[]>();
+  @Output() orderCreated = new EventEmitter<OrderRequest>();
 
   // Order items array
-  orderItems: OrderItemForm[] = [
-    { barcode: '', quantity: 1, mrp: 0 }
-  ];
+  orderItems: OrderItemForm[] = [this.newOrderItem()];
+
+  // Discount on the whole order, and the largest discount the user's role may give
+  orderDiscount: Discount = { type: 'PERCENT', value: 0 };
+  orderDiscountError = '';
+  maxDiscountPercent = 0;
+
+  // Whether prices include GST, and whether the sale is inter-state (IGST)
+  taxOptions: TaxOptions = { mode: 'INCLUSIVE', interState: false };
 
   // Form validation
   showError = false;
@@ -36,14 +54,29 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
   barcodeValidationState: { [key: number]: 'pending' | 'valid' | 'invalid' | 'checking' } = {};
   validatedBarcodes: { [key: number]: boolean } = {};
 
-  // LocalStorage key for order items
-  private readonly STORAGE_KEY = 'add-order-modal-items';
+  // Products found for validated barcodes, and lines a supervisor allowed above MRP
+  products: { [key: number]: ProductLookup | null } = {};
+  priceOverrides: { [key: number]: boolean } = {};
+  isSupervisor = false;
+
+  // True while stock is re-checked before submitting
+  checkingStock = false;
+
+  // Carts parked for later, and the inline "Hold cart" form
+  heldCarts: HeldCart[] = [];
+  showHeldCarts = false;
+  holdingCart = false;
+  holdCartName = '';
 
   // Component destruction subject for cleanup
   private destroy$ = new Subject<void>();
 
   constructor(
     private orderService: OrderService,
+    private inventoryService: InventoryService,
+    private heldCartService: HeldCartService,
+    @Inject(APP_CONFIG) private config: AppConfig,
+    private roleService: RoleService,
     private toastService: ToastService
   ) {}
 
@@ -51,7 +84,35 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
     // Initialize validation state for the first item
     this.barcodeValidationState[0] = 'pending';
     this.validatedBarcodes[0] = false;
+    this.taxOptions = this.getDefaultTaxOptions();
     this.loadFromStorage();
+
+    // A saved draft may be old: show today's stock for its lines
+    if (Object.values(this.products).some(product => !!product)) {
+      this.refreshStock()
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: () => this.orderItems.forEach((_, index) => this.validateField('quantity', index)),
+          error: (error) => console.error('Error refreshing stock:', error)
+        });
+    }
+
+    // Overrides only hold while a supervisor is signed in
+    this.roleService.isSupervisor()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(isSupervisor => {
+        this.isSupervisor = isSupervisor;
+        this.maxDiscountPercent = this.roleService.getMaxDiscountPercent();
+        this.validateDiscounts();
+        if (!isSupervisor) {
+          this.priceOverrides = {};
+        }
+        this.orderItems.forEach((_, index) => {
+          if (this.isAboveMrp(index)) {
+            this.validateField('mrp', index);
+          }
+        });
+      });
   }
 
   ngOnDestroy() {
@@ -60,36 +121,166 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Load order items from localStorage
+   * Loads the signed-in user's draft and held carts
    */
   private loadFromStorage(): void {
-    try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.orderItems = data.orderItems || [{ barcode: '', quantity: 1, mrp: 0 }];
-        this.barcodeValidationState = data.barcodeValidationState || { 0: 'pending' };
-        this.validatedBarcodes = data.validatedBarcodes || { 0: false };
-      }
-    } catch (error) {
-      console.error('Error loading from localStorage:', error);
+    const draft = this.heldCartService.getDraft();
+    if (draft) {
+      this.applyDraft(draft);
     }
+    this.heldCarts = this.heldCartService.getHeldCarts();
   }
 
   /**
-   * Save order items to localStorage
+   * Saves the cart being built as the signed-in user's draft
    */
   private saveToStorage(): void {
-    try {
-      const data = {
-        orderItems: this.orderItems,
-        barcodeValidationState: this.barcodeValidationState,
-        validatedBarcodes: this.validatedBarcodes
-      };
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
-    } catch (error) {
-      console.error('Error saving to localStorage:', error);
+    this.heldCartService.saveDraft(this.getDraft());
+  }
+
+  /**
+   * Snapshot of the cart being built
+   * @returns Current draft
+   */
+  private getDraft(): OrderDraft {
+    // A lookup still running is not saved: the resumed draft looks the barcode up again
+    const barcodeValidationState: OrderDraft['barcodeValidationState'] = {};
+    Object.entries(this.barcodeValidationState).forEach(([key, state]) => {
+      barcodeValidationState[Number(key)] = state === 'checking' ? 'pending' : state;
+    });
+
+    return {
+      orderItems: this.orderItems,
+      barcodeValidationState,
+      validatedBarcodes: this.validatedBarcodes,
+      products: this.products,
+      priceOverrides: this.priceOverrides,
+      orderDiscount: this.orderDiscount,
+      taxMode: this.taxOptions.mode,
+      interState: this.taxOptions.interState
+    };
+  }
+
+  /**
+   * Replaces the cart being built with a saved draft
+   * @param draft - Draft to show
+   */
+  private applyDraft(draft: OrderDraft): void {
+    this.orderItems = draft.orderItems?.length
+      ? draft.orderItems.map(item => ({ ...item, discount: item.discount ?? { type: 'PERCENT', value: 0 } }))
+      : [this.newOrderItem()];
+    this.orderDiscount = draft.orderDiscount ?? { type: 'PERCENT', value: 0 };
+    this.taxOptions = {
+      mode: draft.taxMode ?? this.getDefaultTaxOptions().mode,
+      interState: !!draft.interState
+    };
+    this.barcodeValidationState = draft.barcodeValidationState || { 0: 'pending' };
+    this.validatedBarcodes = draft.validatedBarcodes || { 0: false };
+    this.products = draft.products || {};
+    this.priceOverrides = draft.priceOverrides || {};
+    this.clearErrors();
+  }
+
+  /**
+   * Checks if the cart being built has any barcode entered
+   * @returns boolean indicating if there is something to hold
+   */
+  hasItems(): boolean {
+    return this.orderItems.some(item => item.barcode.trim() !== '');
+  }
+
+  /**
+   * Opens the inline form to hold the current cart
+   */
+  startHoldCart(): void {
+    if (!this.hasItems()) {
+      this.toastService.showError('Add at least one item before holding the cart');
+      return;
+    }
+    this.holdCartName = `Cart ${this.heldCarts.length + 1}`;
+    this.holdingCart = true;
+  }
+
+  /**
+   * Closes the inline hold form
+   */
+  cancelHoldCart(): void {
+    this.holdingCart = false;
+    this.holdCartName = '';
+  }
+
+  /**
+   * Parks the current cart under the entered name and starts an empty one
+   */
+  confirmHoldCart(): void {
+    const name = this.holdCartName.trim();
+    if (!name) {
+      this.toastService.showError('Enter a name for the held cart');
+      return;
+    }
+    this.heldCartService.holdCart(name, this.getDraft());
+    this.heldCarts = this.heldCartService.getHeldCarts();
+    this.cancelHoldCart();
+    this.resetForm();
+    this.toastService.showSuccess(`Cart "${name}" held`);
+  }
+
+  /**
+   * Resumes a held cart; a cart in progress is held first so nothing is lost
+   * @param cart - Held cart to resume
+   */
+  resumeHeldCart(cart: HeldCart): void {
+    if (this.hasItems()) {
+      const name = `Cart ${this.heldCarts.length + 1}`;
+      this.heldCartService.holdCart(name, this.getDraft());
+      this.toastService.showInfo(`Current cart held as "${name}"`);
+    }
+
+    const resumed = this.heldCartService.resumeCart(cart.id);
+    this.heldCarts = this.heldCartService.getHeldCarts();
+    if (!resumed) {
+      this.toastService.showError(`Held cart "${cart.name}" no longer exists`);
+      return;
+    }
+
+    this.applyDraft(resumed.draft);
+    if (!this.isSupervisor) {
+      this.priceOverrides = {};
+    }
+    this.orderItems.forEach((_, index) => {
+      if (this.isAboveMrp(index)) {
+        this.validateField('mrp', index);
+      }
+    });
+    this.saveToStorage();
+    this.showHeldCarts = false;
+    this.refreshStock()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => this.orderItems.forEach((_, index) => this.validateField('quantity', index)),
+        error: (error) => console.error('Error refreshing stock:', error)
+      });
+  }
+
+  /**
+   * Deletes a held cart after confirmation
+   * @param cart - Held cart to discard
+   */
+  discardHeldCart(cart: HeldCart): void {
+    if (!confirm(`Discard held cart "${cart.name}"?`)) {
+      return;
     }
+    this.heldCartService.discardCart(cart.id);
+    this.heldCarts = this.heldCartService.getHeldCarts();
+  }
+
+  /**
+   * Counts the items entered in a held cart
+   * @param cart - Held cart
+   * @returns Number of lines with a barcode
+   */
+  getHeldCartItemCount(cart: HeldCart): number {
+    return cart.draft.orderItems.filter(item => item.barcode.trim() !== '').length;
   }
 
   /**
@@ -97,7 +288,7 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    */
   addOrderItem() {
     const newIndex = this.orderItems.length;
-    this.orderItems.push({ barcode: '', quantity: 1, mrp: 0 });
+    this.orderItems.push(this.newOrderItem());
     this.barcodeValidationState[newIndex] = 'pending';
     this.validatedBarcodes[newIndex] = false;
     this.saveToStorage();
@@ -119,20 +310,24 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
       // Reindex validation states for items after the removed one
       const newBarcodeValidationState: { [key: number]: 'pending' | 'valid' | 'invalid' | 'checking' } = {};
       const newValidatedBarcodes: { [key: number]: boolean } = {};
+      const newProducts: { [key: number]: ProductLookup | null } = {};
+      const newPriceOverrides: { [key: number]: boolean } = {};
       
       Object.keys(this.barcodeValidationState).forEach(key => {
         const keyIndex = parseInt(key);
-        if (keyIndex < index) {
-          newBarcodeValidationState[keyIndex] = this.barcodeValidationState[keyIndex];
-          newValidatedBarcodes[keyIndex] = this.validatedBarcodes[keyIndex];
-        } else if (keyIndex > index) {
-          newBarcodeValidationState[keyIndex - 1] = this.barcodeValidationState[keyIndex];
-          newValidatedBarcodes[keyIndex - 1] = this.validatedBarcodes[keyIndex];
+        const newIndex = keyIndex < index ? keyIndex : keyIndex - 1;
+        if (keyIndex !== index) {
+          newBarcodeValidationState[newIndex] = this.barcodeValidationState[keyIndex];
+          newValidatedBarcodes[newIndex] = this.validatedBarcodes[keyIndex];
+          newProducts[newIndex] = this.products[keyIndex] ?? null;
+          newPriceOverrides[newIndex] = !!this.priceOverrides[keyIndex];
         }
       });
       
       this.barcodeValidationState = newBarcodeValidationState;
       this.validatedBarcodes = newValidatedBarcodes;
+      this.products = newProducts;
+      this.priceOverrides = newPriceOverrides;
       
       this.validateForm();
       this.saveToStorage();
@@ -169,6 +364,9 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
       if (!item.quantity || isNaN(quantity) || quantity <= 0 || !Number.isInteger(quantity)) {
         this.setFieldError('quantity', index, 'Quantity must be a positive whole number');
         isValid = false;
+      } else if (this.exceedsStock(index)) {
+        this.setFieldError('quantity', index, this.getStockError(index));
+        isValid = false;
       }
 
       // MRP validation
@@ -176,9 +374,16 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
       if (!item.mrp || isNaN(mrp) || mrp <= 0) {
         this.setFieldError('mrp', index, 'MRP must be a positive number');
         isValid = false;
+      } else if (this.exceedsMrp(index)) {
+        this.setFieldError('mrp', index, this.getMrpCapError(index));
+        isValid = false;
       }
     });
 
+    if (!this.validateDiscounts()) {
+      isValid = false;
+    }
+
     return isValid;
   }
 
@@ -186,19 +391,68 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    * Handles form submission
    */
   async onSubmit() {
-    if (this.validateForm()) {
-      // Create a copy of order items with trimmed values
-      const cleanOrderItems: OrderItemForm[] = this.orderItems.map(item => ({
-        barcode: item.barcode.trim(),
-        quantity: item.quantity,
-        mrp: item.mrp
-      }));
-
-      this.orderCreated.emit(cleanOrderItems);
-      this.closeModal();
-    } else {
+    if (this.checkingStock) {
+      return;
+    }
+    if (!this.validateForm()) {
       this.toastService.showError('Please fix the form errors before submitting');
+      return;
     }
+
+    // Stock may have been sold elsewhere since the barcodes were looked up
+    this.checkingStock = true;
+    this.refreshStock()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.checkingStock = false;
+          this.saveToStorage();
+          if (!this.validateForm()) {
+            this.toastService.showError('Stock has changed. Please adjust the highlighted quantities');
+            return;
+          }
+
+          // Create a copy of order items with trimmed values; empty discounts are left out
+          const cleanOrderItems: OrderItemForm[] = this.orderItems.map(item => ({
+            barcode: item.barcode.trim(),
+            quantity: item.quantity,
+            mrp: item.mrp,
+            discount: this.toRequestDiscount(item.discount)
+          }));
+
+          this.orderCreated.emit({
+            items: cleanOrderItems,
+            discount: this.toRequestDiscount(this.orderDiscount),
+            taxMode: this.taxOptions.mode,
+            interState: this.taxOptions.interState
+          });
+          this.closeModal();
+        },
+        error: (error) => {
+          this.checkingStock = false;
+          // Extract the exact error message from backend
+          let errorMessage = 'Could not check stock. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error checking stock:', error);
+        }
+      });
+  }
+
+  /**
+   * Re-reads the available stock of every looked-up product
+   * @returns Observable that completes once all lines are updated
+   */
+  private refreshStock(): Observable<void> {
+    const lookups = Object.entries(this.products)
+      .filter((entry): entry is [string, ProductLookup] => !!entry[1])
+      .map(([, product]) => this.inventoryService.getAvailableQuantity(product.id, product.barcode).pipe(
+        map(availableQuantity => { product.availableQuantity = availableQuantity; })
+      ));
+
+    return lookups.length ? forkJoin(lookups).pipe(map(() => undefined)) : of(undefined);
   }
 
   /**
@@ -206,6 +460,8 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    */
   closeModal() {
     this.showChange.emit(false);
+    this.showHeldCarts = false;
+    this.cancelHoldCart();
     this.resetForm();
   }
 
@@ -223,9 +479,13 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    * Resets the form to initial state
    */
   private resetForm(): void {
-    this.orderItems = [{ barcode: '', quantity: 1, mrp: 0 }];
+    this.orderItems = [this.newOrderItem()];
+    this.orderDiscount = { type: 'PERCENT', value: 0 };
+    this.taxOptions = this.getDefaultTaxOptions();
     this.barcodeValidationState = { 0: 'pending' };
     this.validatedBarcodes = { 0: false };
+    this.products = {};
+    this.priceOverrides = {};
     this.clearErrors();
     this.saveToStorage();
   }
@@ -235,6 +495,7 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    */
   private clearErrors(): void {
     this.fieldErrors = {};
+    this.orderDiscountError = '';
     this.showError = false;
     this.errorMessage = '';
   }
@@ -283,11 +544,17 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
     if (!barcode) {
       this.barcodeValidationState[index] = 'pending';
       this.validatedBarcodes[index] = false;
+      this.setProduct(index, null);
       this.clearFieldError('barcode', index);
       this.saveToStorage();
       return;
     }
 
+    // The same product was already looked up for this row
+    if (this.isBarcodeValid(index) && this.products[index]?.barcode.toLowerCase() === barcode.toLowerCase()) {
+      return;
+    }
+
     // Check for duplicate barcodes first
     const duplicateIndex = this.findDuplicateBarcode(barcode, index);
     if (duplicateIndex !== -1) {
@@ -302,25 +569,39 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
     this.barcodeValidationState[index] = 'checking';
     this.clearFieldError('barcode', index);
 
-    this.orderService.validateBarcode(barcode)
+    this.orderService.lookupBarcode(barcode)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (isValid) => {
-          if (isValid) {
-            this.barcodeValidationState[index] = 'valid';
-            this.validatedBarcodes[index] = true;
-            this.clearFieldError('barcode', index);
+        next: (product) => {
+          const row = this.findLookupRow(index, barcode);
+          if (row === -1) {
+            return;
+          }
+          this.setProduct(row, product);
+          if (product) {
+            this.barcodeValidationState[row] = 'valid';
+            this.validatedBarcodes[row] = true;
+            this.clearFieldError('barcode', row);
+            // Sell at MRP unless the cashier changes the price
+            this.orderItems[row].mrp = product.mrp;
+            this.validateField('mrp', row);
+            this.validateField('quantity', row);
           } else {
-            this.barcodeValidationState[index] = 'invalid';
-            this.validatedBarcodes[index] = false;
-            this.setFieldError('barcode', index, `Product with barcode: ${barcode} not found`);
+            this.barcodeValidationState[row] = 'invalid';
+            this.validatedBarcodes[row] = false;
+            this.setFieldError('barcode', row, `Product with barcode: ${barcode} not found`);
             this.toastService.showError(`Product with barcode: ${barcode} not found`);
           }
           this.saveToStorage();
         },
         error: (error) => {
-          this.barcodeValidationState[index] = 'invalid';
-          this.validatedBarcodes[index] = false;
+          const row = this.findLookupRow(index, barcode);
+          if (row === -1) {
+            return;
+          }
+          this.barcodeValidationState[row] = 'invalid';
+          this.validatedBarcodes[row] = false;
+          this.setProduct(row, null);
           
           // Extract the exact error message from backend
           let errorMessage = `Product with barcode: ${barcode} not found`;
@@ -328,13 +609,27 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
             errorMessage = error.message;
           }
           
-          this.setFieldError('barcode', index, errorMessage);
+          this.setFieldError('barcode', row, errorMessage);
           this.toastService.showError(errorMessage);
           this.saveToStorage();
         }
       });
   }
 
+  /**
+   * Finds the row a barcode lookup belongs to once it returns
+   * Rows may have been removed or edited meanwhile, so the result only goes to a row still holding the barcode
+   * @param index - Row the lookup started from
+   * @param barcode - Barcode looked up
+   * @returns Row index, or -1 when no row holds the barcode any more
+   */
+  private findLookupRow(index: number, barcode: string): number {
+    if (this.orderItems[index]?.barcode.trim() === barcode) {
+      return index;
+    }
+    return this.orderItems.findIndex(item => item.barcode.trim() === barcode);
+  }
+
   /**
    * Finds duplicate barcode in the order items
    * @param barcode - Barcode to check
@@ -355,6 +650,16 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
   onBarcodeInput(index: number): void {
     const item = this.orderItems[index];
     const barcode = item.barcode.trim();
+
+    // A changed barcode needs a new lookup; a lookup still running is for the old barcode
+    if (this.barcodeValidationState[index] === 'checking') {
+      this.barcodeValidationState[index] = 'pending';
+    }
+    if (this.products[index] && this.products[index]?.barcode.toLowerCase() !== barcode.toLowerCase()) {
+      this.barcodeValidationState[index] = 'pending';
+      this.validatedBarcodes[index] = false;
+      this.setProduct(index, null);
+    }
     
     if (!barcode) {
       this.clearFieldError('barcode', index);
@@ -388,6 +693,8 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
           this.setFieldError('quantity', index, 'Quantity must be a positive whole number');
         } else if (quantity > 999999) {
           this.setFieldError('quantity', index, 'Quantity cannot exceed 999,999');
+        } else if (this.exceedsStock(index)) {
+          this.setFieldError('quantity', index, this.getStockError(index));
         } else {
           this.clearFieldError('quantity', index);
         }
@@ -398,14 +705,217 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
           this.setFieldError('mrp', index, 'MRP must be a positive number');
         } else if (mrp > 999999) {
           this.setFieldError('mrp', index, 'MRP cannot exceed 999,999');
+        } else if (this.exceedsMrp(index)) {
+          this.setFieldError('mrp', index, this.getMrpCapError(index));
         } else {
           this.clearFieldError('mrp', index);
         }
         break;
     }
+    // Fixed discounts and role caps depend on the line amounts
+    this.validateDiscounts();
+    this.saveToStorage();
+  }
+
+  /**
+   * Subtotal, discounts and total of the cart being built
+   * @returns Totals breakdown
+   */
+  getTotals(): OrderTotals & { lines: LineAmounts[] } {
+    return calculateOrder(this.orderItems.map((item, index) => ({
+      price: Number(item.mrp) || 0,
+      quantity: Number(item.quantity) || 0,
+      discount: item.discount,
+      taxRate: this.products[index]?.taxRate
+    })), this.orderDiscount, this.taxOptions);
+  }
+
+  /**
+   * Amounts of one line, including its share of the order discount and its GST
+   * @param index - Index of the item
+   * @returns Line amounts
+   */
+  getLineAmounts(index: number): LineAmounts {
+    return this.getTotals().lines[index];
+  }
+
+  /**
+   * Switches between GST-inclusive and exclusive prices, or intra- and inter-state supply
+   * @param changes - Tax options to change
+   */
+  setTaxOptions(changes: Partial<TaxOptions>): void {
+    this.taxOptions = { ...this.taxOptions, ...changes };
+    this.saveToStorage();
+  }
+
+  /**
+   * Validates a discount input and saves the draft
+   */
+  onDiscountChange(): void {
+    this.validateDiscounts();
     this.saveToStorage();
   }
 
+  /**
+   * Checks every line discount and the order discount against the amounts and the role cap
+   * @returns boolean indicating if all discounts are valid
+   */
+  private validateDiscounts(): boolean {
+    let isValid = true;
+
+    this.orderItems.forEach((item, index) => {
+      const gross = (Number(item.mrp) || 0) * (Number(item.quantity) || 0);
+      const error = this.getDiscountError(item.discount, gross);
+      if (error) {
+        this.setFieldError('discount', index, error);
+        isValid = false;
+      } else {
+        this.clearFieldError('discount', index);
+      }
+    });
+
+    const totals = this.getTotals();
+    this.orderDiscountError = this.getDiscountError(this.orderDiscount, totals.subtotal - totals.lineDiscount);
+    // Line and order discounts stacked together are capped too
+    if (!this.orderDiscountError && discountPercent(totals.discount, totals.subtotal) > this.maxDiscountPercent + 0.005) {
+      this.orderDiscountError = `Total discount cannot exceed ${this.maxDiscountPercent}% for your role`;
+    }
+
+    return isValid && !this.orderDiscountError;
+  }
+
+  /**
+   * Builds the error for a discount, or an empty string if it is valid
+   * @param discount - Discount entered
+   * @param base - Amount the discount applies to
+   * @returns Error message
+   */
+  private getDiscountError(discount: Discount | null | undefined, base: number): string {
+    if (!discount || !discount.value) {
+      return '';
+    }
+    const value = Number(discount.value);
+    if (isNaN(value) || value < 0 || !this.isValidNumber(discount.value.toString())) {
+      return 'Discount must be a positive number';
+    }
+    if (discount.type === 'PERCENT' && value > 100) {
+      return 'Discount cannot exceed 100%';
+    }
+    if (discount.type === 'FIXED' && value > base) {
+      return 'Discount cannot exceed the amount';
+    }
+    if (discountPercent(discountAmount(base, discount), base) > this.maxDiscountPercent + 0.005) {
+      return this.maxDiscountPercent > 0
+        ? `Discount cannot exceed ${this.maxDiscountPercent}% for your role`
+        : 'Your role cannot give discounts';
+    }
+    return '';
+  }
+
+  /**
+   * Converts an entered discount to the request form
+   * @param discount - Discount entered
+   * @returns Discount with a numeric value, or null when there is none
+   */
+  private toRequestDiscount(discount: Discount | null | undefined): Discount | null {
+    const value = Number(discount?.value);
+    return discount && value > 0 ? { type: discount.type, value } : null;
+  }
+
+  /**
+   * Tax options for a new cart, from config.json
+   * @returns Tax options
+   */
+  private getDefaultTaxOptions(): TaxOptions {
+    const mode: TaxMode = this.config.tax.priceMode === 'EXCLUSIVE' ? 'EXCLUSIVE' : 'INCLUSIVE';
+    return { mode, interState: false };
+  }
+
+  /**
+   * Creates an empty order item row
+   * @returns New order item
+   */
+  private newOrderItem(): OrderItemForm {
+    return { barcode: '', quantity: 1, mrp: 0, discount: { type: 'PERCENT', value: 0 } };
+  }
+
+  /**
+   * Checks if a line's selling price is above the product's MRP without a supervisor override
+   * @param index - Index of the item
+   * @returns boolean indicating if the price is over MRP
+   */
+  exceedsMrp(index: number): boolean {
+    const product = this.products[index];
+    return !!product && Number(this.orderItems[index].mrp) > product.mrp && !this.priceOverrides[index];
+  }
+
+  /**
+   * Checks if a line asks for more units than are in stock
+   * @param index - Index of the item
+   * @returns boolean indicating if the quantity exceeds stock
+   */
+  exceedsStock(index: number): boolean {
+    const product = this.products[index];
+    return !!product && Number(this.orderItems[index].quantity) > product.availableQuantity;
+  }
+
+  /**
+   * Builds the error shown when a quantity exceeds stock
+   * @param index - Index of the item
+   * @returns Error message
+   */
+  private getStockError(index: number): string {
+    const available = this.products[index]?.availableQuantity ?? 0;
+    return available > 0 ? `Only ${available} in stock` : 'Out of stock';
+  }
+
+  /**
+   * Allows or disallows a selling price above MRP for a line (supervisors only)
+   * @param index - Index of the item
+   * @param allowed - Whether the override is on
+   */
+  setPriceOverride(index: number, allowed: boolean): void {
+    if (!this.isSupervisor) {
+      return;
+    }
+    this.priceOverrides[index] = allowed;
+    this.validateField('mrp', index);
+  }
+
+  /**
+   * Checks if a line's price is above MRP, overridden or not
+   * @param index - Index of the item
+   * @returns boolean indicating if the price is above MRP
+   */
+  isAboveMrp(index: number): boolean {
+    const product = this.products[index];
+    return !!product && Number(this.orderItems[index].mrp) > product.mrp;
+  }
+
+  /**
+   * Stores the product looked up for a line; a new product drops any price override
+   * @param index - Index of the item
+   * @param product - Product found, or null
+   */
+  private setProduct(index: number, product: ProductLookup | null): void {
+    if (this.products[index]?.id !== product?.id) {
+      this.priceOverrides[index] = false;
+    }
+    this.products[index] = product;
+  }
+
+  /**
+   * Builds the error shown when a price is above MRP
+   * @param index - Index of the item
+   * @returns Error message
+   */
+  private getMrpCapError(index: number): string {
+    const mrp = this.products[index]?.mrp ?? 0;
+    return this.isSupervisor
+      ? `Selling price exceeds MRP (₹${mrp}); tick override to allow it`
+      : `Selling price cannot exceed MRP (₹${mrp}); ask a supervisor to override`;
+  }
+
   /**
    * Handles keydown events for quantity inputs (integers only)
    * @param event - Keyboard event
@@ -533,7 +1043,7 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
    * @returns boolean indicating if the form is valid
    */
   isFormValid(): boolean {
-    return this.orderItems.every((item, index) => {
+    return !this.orderDiscountError && this.orderItems.every((item, index) => {
       const quantity = Number(item.quantity);
       const mrp = Number(item.mrp);
       
@@ -549,6 +1059,7 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
              !this.hasFieldError('barcode', index) &&
              !this.hasFieldError('quantity', index) &&
              !this.hasFieldError('mrp', index) &&
+             !this.hasFieldError('discount', index) &&
              this.isBarcodeValid(index);
     });
   }
@@ -561,6 +1072,7 @@ export class AddOrderModalComponent implements OnInit, OnDestroy {
     this.orderItems[index].barcode = '';
     this.barcodeValidationState[index] = 'pending';
     this.validatedBarcodes[index] = false;
+    this.setProduct(index, null);
     this.clearFieldError('barcode', index);
     this.saveToStorage();
   }
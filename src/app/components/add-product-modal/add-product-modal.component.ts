@@ -7,6 +7,7 @@ import { Client } from '../../models/client.model';
 import { ClientService } from '../../services/client.service';
 import { ProductService } from '../../services/product.service';
 import { ToastService } from '../../services/toast.service';
+import { GST_RATES, isValidHsnCode } from '../../utils/pricing.util';
 
 /**
  * Modal component for adding new products
@@ -34,6 +35,9 @@ export class AddProductModalComponent implements OnInit, OnDestroy {
   productName = '';
   mrp: number | null = null;
   imageUrl = '';
+  hsnCode = '';
+  taxRate = 0;
+  readonly gstRates = GST_RATES;
 
   // Bulk upload
   selectedFile: File | null = null;
@@ -135,6 +139,12 @@ export class AddProductModalComponent implements OnInit, OnDestroy {
       isValid = false;
     }
 
+    // HSN code validation (optional)
+    if (this.hsnCode.trim() && !isValidHsnCode(this.hsnCode)) {
+      this.fieldErrors['hsnCode'] = 'HSN code must be 4 to 8 digits';
+      isValid = false;
+    }
+
     return isValid;
   }
 
@@ -167,7 +177,9 @@ export class AddProductModalComponent implements OnInit, OnDestroy {
         clientId: this.selectedClientId!,
         name: this.productName.trim(),
         mrp: this.mrp!,
-        imageUrl: this.imageUrl.trim() || undefined
+        imageUrl: this.imageUrl.trim() || undefined,
+        hsnCode: this.hsnCode.trim() || undefined,
+        taxRate: Number(this.taxRate)
       };
 
       this.productAdded.emit(productRequest);
@@ -257,6 +269,8 @@ export class AddProductModalComponent implements OnInit, OnDestroy {
     this.productName = '';
     this.mrp = null;
     this.imageUrl = '';
+    this.hsnCode = '';
+    this.taxRate = 0;
     this.selectedFile = null;
     this.clearErrors();
   }
@@ -366,6 +380,17 @@ export class AddProductModalComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Validates the HSN code field and sets error state
+   */
+  validateHsnCode(): void {
+    if (this.hsnCode.trim() && !isValidHsnCode(this.hsnCode)) {
+      this.fieldErrors['hsnCode'] = 'HSN code must be 4 to 8 digits';
+    } else {
+      this.clearFieldError('hsnCode');
+    }
+  }
+
   /**
    * Handles keydown events for number inputs to prevent invalid characters
    * @param event - Keyboard event
@@ -5,6 +5,8 @@ import { CommonModule } from '@angular/common';
 import { AuthService } from '../../services/auth.service';
 import { RoleService } from '../../services/role.service';
 import { UserResponse } from '../../models/auth.model';
+import { CanDirective } from '../../directives/can.directive';
+import { ChangePasswordModalComponent } from '../change-password-modal/change-password-modal.component';
 
 /**
  * Application navigation bar component
@@ -13,7 +15,7 @@ import { UserResponse } from '../../models/auth.model';
 @Component({
   selector: 'app-bar',
   standalone: true,
-  imports: [RouterModule, CommonModule],
+  imports: [RouterModule, CommonModule, CanDirective, ChangePasswordModalComponent],
   templateUrl: './app-bar.component.html',
   styleUrl: './app-bar.component.css'
 })
@@ -21,6 +23,7 @@ export class AppBarComponent implements OnInit, OnDestroy {
   @Input() currentRoute: string = '';
   
   currentUser: UserResponse | null = null;
+  showChangePasswordModal = false;
   private destroy$ = new Subject<void>();
 
   constructor(
@@ -67,6 +70,13 @@ export class AppBarComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Open the change password dialog
+   */
+  openChangePasswordModal(): void {
+    this.showChangePasswordModal = true;
+  }
+
   /**
    * Get user's initials for avatar
    */
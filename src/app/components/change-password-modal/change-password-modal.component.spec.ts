@@ -0,0 +1,37 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { ChangePasswordModalComponent } from './change-password-modal.component';
+
+describe('ChangePasswordModalComponent', () => {
+  let component: ChangePasswordModalComponent;
+  let fixture: ComponentFixture<ChangePasswordModalComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ChangePasswordModalComponent],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ChangePasswordModalComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should flag mismatched new passwords', () => {
+    component.passwordForm.setValue({
+      currentPassword: 'secret1',
+      newPassword: 'newsecret',
+      confirmPassword: 'different'
+    });
+
+    expect(component.passwordForm.valid).toBeFalse();
+    expect(component.passwordForm.get('confirmPassword')?.hasError('passwordMismatch')).toBeTrue();
+  });
+});
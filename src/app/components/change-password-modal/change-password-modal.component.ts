@@ -0,0 +1,169 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { Subject, takeUntil } from 'rxjs';
+import { AuthService } from '../../services/auth.service';
+import { ChangePasswordForm } from '../../models/auth.model';
+import { passwordMatchValidator } from '../../validators/password-match.validator';
+
+/**
+ * Modal component for signed-in users to change their password
+ * Requires the current password and a confirmed new password
+ */
+@Component({
+  selector: 'change-password-modal',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './change-password-modal.component.html',
+  styleUrls: ['./change-password-modal.component.css']
+})
+export class ChangePasswordModalComponent implements OnDestroy {
+  @Input() show = false;
+  @Output() showChange = new EventEmitter<boolean>();
+
+  passwordForm: FormGroup;
+  isSubmitting = false;
+
+  // Password visibility state
+  showCurrentPassword = false;
+  showNewPassword = false;
+  showConfirmPassword = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private fb: FormBuilder, private authService: AuthService) {
+    this.passwordForm = this.initializeForm();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Initialize the change password form with validation
+   */
+  private initializeForm(): FormGroup {
+    return this.fb.group({
+      currentPassword: ['', [Validators.required]],
+      newPassword: ['', [Validators.required, Validators.minLength(6)]],
+      confirmPassword: ['', [Validators.required]]
+    }, { validators: passwordMatchValidator('newPassword', 'confirmPassword') });
+  }
+
+  /**
+   * Toggles current password visibility
+   */
+  toggleCurrentPasswordVisibility(): void {
+    this.showCurrentPassword = !this.showCurrentPassword;
+  }
+
+  /**
+   * Toggles new password visibility
+   */
+  toggleNewPasswordVisibility(): void {
+    this.showNewPassword = !this.showNewPassword;
+  }
+
+  /**
+   * Toggles confirm password visibility
+   */
+  toggleConfirmPasswordVisibility(): void {
+    this.showConfirmPassword = !this.showConfirmPassword;
+  }
+
+  /**
+   * Handles form submission
+   * Sends the change request and closes the modal on success
+   */
+  onSubmit(): void {
+    if (this.passwordForm.invalid) {
+      this.passwordForm.markAllAsTouched();
+      return;
+    }
+
+    const { currentPassword, newPassword } = this.passwordForm.value;
+    const changeData: ChangePasswordForm = { currentPassword, newPassword };
+
+    this.isSubmitting = true;
+    this.authService.changePassword(changeData)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          // Success handled in service (shows toast)
+          this.isSubmitting = false;
+          this.closeModal();
+        },
+        error: () => {
+          // Error handled in service (shows toast)
+          // Clear only the current password so the user can retype it
+          this.isSubmitting = false;
+          this.passwordForm.patchValue({ currentPassword: '' });
+        }
+      });
+  }
+
+  /**
+   * Closes the modal and resets form state
+   */
+  closeModal(): void {
+    this.show = false;
+    this.showChange.emit(false);
+    this.resetForm();
+  }
+
+  /**
+   * Handles backdrop click to close modal
+   * @param event - The click event
+   */
+  onBackdropClick(event: Event): void {
+    if (event.target === event.currentTarget) {
+      this.closeModal();
+    }
+  }
+
+  /**
+   * Check if a form field has an error
+   */
+  hasError(controlName: string): boolean {
+    const control = this.passwordForm.get(controlName);
+    return !!(control && control.invalid && (control.dirty || control.touched));
+  }
+
+  /**
+   * Get a form field error message
+   */
+  getErrorMessage(controlName: string): string {
+    const control = this.passwordForm.get(controlName);
+    if (control && control.errors) {
+      if (control.errors['required']) {
+        switch (controlName) {
+          case 'currentPassword':
+            return 'Current password is required';
+          case 'confirmPassword':
+            return 'Please confirm your new password';
+          default:
+            return 'New password is required';
+        }
+      }
+      if (control.errors['minlength']) {
+        return `Password must be at least ${control.errors['minlength'].requiredLength} characters`;
+      }
+      if (control.errors['passwordMismatch']) {
+        return 'Passwords do not match';
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Resets the form to initial state
+   */
+  private resetForm(): void {
+    this.passwordForm = this.initializeForm();
+    this.isSubmitting = false;
+    this.showCurrentPassword = false;
+    this.showNewPassword = false;
+    this.showConfirmPassword = false;
+  }
+}
@@ -0,0 +1,125 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+import { CommonModule } from '@angular/common';
+import { AuthService } from '../../services/auth.service';
+import { IdleService } from '../../services/idle.service';
+import { UserResponse } from '../../models/auth.model';
+import { IdleState } from '../../models/idle.model';
+
+/**
+ * Inactivity countdown and lock screen overlay
+ * Rendered above the current page so the route and any open cart survive the lock
+ */
+@Component({
+  selector: 'app-lock-screen',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './lock-screen.component.html',
+  styleUrl: './lock-screen.component.css'
+})
+export class LockScreenComponent implements OnInit, OnDestroy {
+  idleState: IdleState = { status: 'active', secondsUntilLock: 0 };
+  currentUser: UserResponse | null = null;
+  unlockForm: FormGroup;
+  showPassword = false;
+  isUnlocking = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private idleService: IdleService,
+    private router: Router
+  ) {
+    this.unlockForm = this.fb.group({
+      password: ['', Validators.required]
+    });
+  }
+
+  ngOnInit(): void {
+    this.idleService.state
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => {
+        this.idleState = state;
+        if (state.status !== 'locked') {
+          this.unlockForm.reset();
+          this.showPassword = false;
+        }
+      });
+
+    this.authService.authState
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(authState => {
+        this.currentUser = authState.user;
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Dismiss the countdown warning
+   */
+  onStayActive(): void {
+    this.idleService.keepAlive();
+  }
+
+  /**
+   * Toggles password visibility
+   */
+  togglePasswordVisibility(): void {
+    this.showPassword = !this.showPassword;
+  }
+
+  /**
+   * Re-authenticate the locked user with their password
+   */
+  onUnlock(): void {
+    if (!this.currentUser || this.unlockForm.invalid) {
+      this.unlockForm.markAllAsTouched();
+      return;
+    }
+
+    this.isUnlocking = true;
+    this.authService.login({ email: this.currentUser.email, password: this.unlockForm.value.password })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          // Success handled in service (shows toast)
+          this.isUnlocking = false;
+          this.idleService.unlock();
+        },
+        error: () => {
+          // Error handled in service (shows toast)
+          this.isUnlocking = false;
+          this.unlockForm.reset();
+        }
+      });
+  }
+
+  /**
+   * Sign out instead of unlocking, e.g. to hand the terminal to another user
+   */
+  onSignOut(): void {
+    this.authService.logout()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => this.router.navigate(['/auth']),
+        // Error handled in service, but still redirect
+        error: () => this.router.navigate(['/auth'])
+      });
+  }
+
+  /**
+   * Check if the password field has an error
+   */
+  hasPasswordError(): boolean {
+    const control = this.unlockForm.get('password');
+    return !!(control && control.invalid && (control.dirty || control.touched));
+  }
+}
@@ -0,0 +1,143 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+import { OrderPayment, PAYMENT_METHOD_LABELS, PaymentMethod, PaymentTender, TenderSummary } from '../../models/payment.model';
+import { PaymentService } from '../../services/payment.service';
+import { ToastService } from '../../services/toast.service';
+import { getTenderError, summarizeTenders } from '../../utils/payment.util';
+
+/**
+ * Modal component for taking payment of a completed order
+ * Supports cash with change, card, UPI and payments split across several tenders
+ */
+@Component({
+  selector: 'payment-modal',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './payment-modal.component.html',
+  styleUrls: ['./payment-modal.component.css']
+})
+export class PaymentModalComponent implements OnChanges, OnDestroy {
+  @Input() show = false;
+  @Input() orderId: number | null = null;
+  @Input() amountDue = 0;
+  @Output() showChange = new EventEmitter<boolean>();
+  @Output() paid = new EventEmitter<OrderPayment>();
+
+  readonly methods: PaymentMethod[] = ['CASH', 'CARD', 'UPI'];
+  readonly methodLabels = PAYMENT_METHOD_LABELS;
+
+  tenders: PaymentTender[] = [];
+  submitted = false;
+  isSubmitting = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private paymentService: PaymentService, private toastService: ToastService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Every payment starts as cash for the full amount
+    if (changes['show'] && this.show) {
+      this.tenders = [{ method: 'CASH', amount: this.amountDue }];
+      this.submitted = false;
+      this.isSubmitting = false;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Paid, remaining and change amounts of the tenders entered
+   */
+  get summary(): TenderSummary {
+    return summarizeTenders(this.tenders, this.amountDue);
+  }
+
+  /**
+   * Why the tenders cannot be recorded yet, or null
+   */
+  get tenderError(): string | null {
+    return getTenderError(this.tenders, this.amountDue);
+  }
+
+  /**
+   * Adds a tender for the amount still to be paid, splitting the payment
+   * @param method - Payment method of the new tender
+   */
+  addTender(method: PaymentMethod): void {
+    this.tenders.push({ method, amount: this.summary.remaining });
+  }
+
+  /**
+   * Removes a tender of a split payment
+   * @param index - Tender index
+   */
+  removeTender(index: number): void {
+    if (this.tenders.length > 1) {
+      this.tenders.splice(index, 1);
+    }
+  }
+
+  /**
+   * Adds the amount still to be paid to a tender
+   * @param index - Tender index
+   */
+  fillRemaining(index: number): void {
+    const tender = this.tenders[index];
+    if (tender) {
+      tender.amount = (Number.isFinite(tender.amount) && tender.amount > 0 ? tender.amount : 0) + this.summary.remaining;
+    }
+  }
+
+  /**
+   * Records the payment and closes the modal
+   */
+  onSubmit(): void {
+    this.submitted = true;
+    if (this.orderId === null || this.tenderError || this.isSubmitting) {
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.paymentService.recordPayment(this.orderId, this.tenders, this.amountDue)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (payment: OrderPayment) => {
+          this.isSubmitting = false;
+          this.paid.emit(payment);
+          this.closeModal();
+        },
+        error: (error: any) => {
+          this.isSubmitting = false;
+          let errorMessage = 'Failed to record the payment. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error recording payment:', error);
+        }
+      });
+  }
+
+  /**
+   * Closes the modal; an order closed without payment stays unpaid and can be paid from the orders list
+   */
+  closeModal(): void {
+    this.show = false;
+    this.showChange.emit(false);
+  }
+
+  /**
+   * Handles backdrop click to close modal
+   * @param event - The click event
+   */
+  onBackdropClick(event: Event): void {
+    if (event.target === event.currentTarget) {
+      this.closeModal();
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Directive, Input, TemplateRef } from '@angular/core';
+
+/**
+ * Context available inside data table cell templates
+ */
+export interface DataTableCellContext<T = any> {
+  $implicit: T; // The row
+  value: unknown; // Value returned by the column accessor
+  index: number;
+}
+
+/**
+ * Custom cell template for one data table column
+ *
+ * Usage:
+ *   <ng-template dataTableCell="name" let-client let-value="value">...</ng-template>
+ *   <ng-template dataTableCell="name" mode="edit" let-client>...</ng-template>
+ *
+ * Edit templates are used for editable columns while the table's isEditing returns true for the row
+ */
+@Directive({
+  selector: 'ng-template[dataTableCell]',
+  standalone: true
+})
+export class DataTableCellDirective<T = any> {
+  @Input('dataTableCell') columnKey = '';
+  @Input() mode: 'view' | 'edit' = 'view';
+
+  constructor(public templateRef: TemplateRef<DataTableCellContext<T>>) {}
+}
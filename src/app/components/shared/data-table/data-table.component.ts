@@ -0,0 +1,327 @@
+import { Component, ContentChildren, EventEmitter, Input, OnChanges, Output, QueryList, SimpleChanges, TemplateRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataTableCellContext, DataTableCellDirective } from './data-table-cell.directive';
+import { UserPreferencesService } from '../../../services/user-preferences.service';
+
+/**
+ * Column definition for the data table
+ */
+export interface DataTableColumn<T = unknown> {
+  key: string; // Unique column key, also the cell template name
+  header: string;
+  accessor?: (row: T) => unknown; // Defaults to row[key]
+  formatter?: (value: unknown, row: T) => string; // Text shown when the column has no cell template
+  sortable?: boolean;
+  sortField?: string; // Field sent to the server when sorting, defaults to key
+  editable?: boolean; // Uses the column's edit template while the row is being edited
+  width?: string; // CSS width, e.g. '20%' or '120px'
+  hideable?: boolean; // Defaults to true; false keeps the column out of the column menu
+  hidden?: boolean; // Hidden until the user shows it
+  cellClass?: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+interface ActiveSort {
+  field: string;
+  direction: SortDirection;
+}
+
+@Component({
+  selector: 'app-data-table',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './data-table.component.html',
+  styleUrl: './data-table.component.css'
+})
+export class DataTableComponent<T = unknown> implements OnChanges {
+  @Input() rows: T[] = [];
+  @Input() columns: DataTableColumn<T>[] = [];
+  @Input() tableId = ''; // Key for the user's column choices; empty disables persistence
+  @Input() rowKey: (row: T) => string | number = (row: T) => (row as { id: string | number }).id;
+  @Input() sort: string | null = null; // 'field,asc' or 'field,desc'
+  @Input() sortMode: 'client' | 'server' = 'client';
+  @Input() selectable = false;
+  @Input() isEditing: (row: T) => boolean = () => false;
+  @Input() stickyHeader = true;
+  @Input() maxHeight = '70vh';
+  @Input() emptyMessage = 'No records found.';
+
+  @Output() sortChange = new EventEmitter<string | null>();
+  @Output() selectionChange = new EventEmitter<T[]>();
+
+  @ContentChildren(DataTableCellDirective) cellTemplates!: QueryList<DataTableCellDirective<T>>;
+
+  visibleColumns: DataTableColumn<T>[] = [];
+  viewRows: T[] = [];
+  activeSort: ActiveSort | null = null;
+
+  private hiddenKeys = new Set<string>();
+  private selectedKeys = new Set<string | number>();
+
+  constructor(private preferences: UserPreferencesService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['columns'] || changes['tableId']) {
+      this.loadHiddenColumns();
+    }
+    if (changes['sort']) {
+      this.activeSort = this.parseSort(this.sort);
+    }
+    if (changes['rows']) {
+      this.pruneSelection();
+    }
+    this.updateViewRows();
+  }
+
+  /**
+   * Columns the user can show or hide
+   */
+  get hideableColumns(): DataTableColumn<T>[] {
+    return this.columns.filter(column => column.hideable !== false);
+  }
+
+  /**
+   * Checks whether a column is currently shown
+   * @param column - Column to check
+   * @returns boolean
+   */
+  isColumnVisible(column: DataTableColumn<T>): boolean {
+    return !this.hiddenKeys.has(column.key);
+  }
+
+  /**
+   * Shows or hides a column and remembers the choice for the current user
+   * The last visible column can't be hidden
+   * @param column - Column to toggle
+   */
+  toggleColumn(column: DataTableColumn<T>): void {
+    if (this.hiddenKeys.has(column.key)) {
+      this.hiddenKeys.delete(column.key);
+    } else if (this.visibleColumns.length > 1) {
+      this.hiddenKeys.add(column.key);
+    }
+
+    this.updateVisibleColumns();
+    if (this.tableId) {
+      this.preferences.set(this.preferenceKey, [...this.hiddenKeys]);
+    }
+  }
+
+  /**
+   * Cycles a column through ascending, descending and unsorted
+   * @param column - Sortable column whose header was clicked
+   */
+  toggleSort(column: DataTableColumn<T>): void {
+    if (!column.sortable) {
+      return;
+    }
+
+    const field = this.sortFieldOf(column);
+    if (this.activeSort?.field !== field) {
+      this.activeSort = { field, direction: 'asc' };
+    } else if (this.activeSort.direction === 'asc') {
+      this.activeSort = { field, direction: 'desc' };
+    } else {
+      this.activeSort = null;
+    }
+
+    this.updateViewRows();
+    this.sortChange.emit(this.activeSort ? `${this.activeSort.field},${this.activeSort.direction}` : null);
+  }
+
+  /**
+   * Gets the sort direction shown on a column header
+   * @param column - Column to check
+   * @returns Direction, or null when the table isn't sorted by this column
+   */
+  sortDirectionOf(column: DataTableColumn<T>): SortDirection | null {
+    return this.activeSort?.field === this.sortFieldOf(column) ? this.activeSort.direction : null;
+  }
+
+  /**
+   * Gets the value of a cell through the column accessor
+   */
+  cellValue(column: DataTableColumn<T>, row: T): unknown {
+    return column.accessor ? column.accessor(row) : (row as Record<string, unknown>)[column.key];
+  }
+
+  /**
+   * Gets the text of a cell without a custom template
+   */
+  cellText(column: DataTableColumn<T>, row: T): string {
+    const value = this.cellValue(column, row);
+    if (column.formatter) {
+      return column.formatter(value, row);
+    }
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  /**
+   * Picks the template for a cell: the edit template while the row is being edited, else the view template
+   * @returns Template, or null to render the formatted text
+   */
+  cellTemplate(column: DataTableColumn<T>, row: T): TemplateRef<DataTableCellContext<T>> | null {
+    const templates = this.cellTemplates?.filter(cell => cell.columnKey === column.key) ?? [];
+    if (column.editable && this.isEditing(row)) {
+      const editTemplate = templates.find(cell => cell.mode === 'edit');
+      if (editTemplate) {
+        return editTemplate.templateRef;
+      }
+    }
+    return templates.find(cell => cell.mode === 'view')?.templateRef ?? null;
+  }
+
+  /**
+   * Builds the context passed to a cell template
+   */
+  cellContext(column: DataTableColumn<T>, row: T, index: number): DataTableCellContext<T> {
+    return { $implicit: row, value: this.cellValue(column, row), index };
+  }
+
+  /**
+   * Checks whether a row is selected
+   */
+  isSelected(row: T): boolean {
+    return this.selectedKeys.has(this.rowKey(row));
+  }
+
+  /**
+   * Selects or deselects a single row
+   */
+  toggleRow(row: T): void {
+    const key = this.rowKey(row);
+    if (this.selectedKeys.has(key)) {
+      this.selectedKeys.delete(key);
+    } else {
+      this.selectedKeys.add(key);
+    }
+    this.emitSelection();
+  }
+
+  /**
+   * Selects every row shown, or clears the selection if all are already selected
+   */
+  toggleAll(): void {
+    if (this.allSelected) {
+      this.selectedKeys.clear();
+    } else {
+      this.rows.forEach(row => this.selectedKeys.add(this.rowKey(row)));
+    }
+    this.emitSelection();
+  }
+
+  /**
+   * Clears the selection (e.g. after a batch action finished)
+   */
+  clearSelection(): void {
+    this.selectedKeys.clear();
+    this.emitSelection();
+  }
+
+  get allSelected(): boolean {
+    return this.rows.length > 0 && this.rows.every(row => this.isSelected(row));
+  }
+
+  get someSelected(): boolean {
+    return this.selectedKeys.size > 0 && !this.allSelected;
+  }
+
+  /**
+   * Track rows by key so edit inputs survive change detection
+   */
+  trackRow = (_index: number, row: T): string | number => this.rowKey(row);
+
+  /**
+   * Restores the user's hidden columns, falling back to the column defaults
+   */
+  private loadHiddenColumns(): void {
+    const defaults = this.columns.filter(column => column.hidden).map(column => column.key);
+    const saved = this.tableId ? this.preferences.get<unknown>(this.preferenceKey, defaults) : defaults;
+    const known = new Set(this.hideableColumns.map(column => column.key));
+
+    // Stored preferences may be stale or hand-edited, so only a list of known keys is trusted
+    const keys = Array.isArray(saved) ? saved : defaults;
+    this.hiddenKeys = new Set(keys.filter((key): key is string => typeof key === 'string' && known.has(key)));
+    this.updateVisibleColumns();
+  }
+
+  private updateVisibleColumns(): void {
+    this.visibleColumns = this.columns.filter(column => this.isColumnVisible(column));
+  }
+
+  /**
+   * Sorts rows in client mode; in server mode rows arrive already sorted
+   */
+  private updateViewRows(): void {
+    const column = this.activeSort && this.columns.find(col => this.sortFieldOf(col) === this.activeSort!.field);
+    if (this.sortMode === 'server' || !this.activeSort || !column) {
+      this.viewRows = this.rows;
+      return;
+    }
+
+    const factor = this.activeSort.direction === 'asc' ? 1 : -1;
+    this.viewRows = [...this.rows].sort((a, b) =>
+      compareValues(this.cellValue(column, a), this.cellValue(column, b)) * factor
+    );
+  }
+
+  /**
+   * Drops selected keys that are no longer in the rows
+   * Runs from ngOnChanges, so the parent hears of it after the current change detection pass
+   */
+  private pruneSelection(): void {
+    if (this.selectedKeys.size === 0) {
+      return;
+    }
+
+    const current = new Set(this.rows.map(row => this.rowKey(row)));
+    const before = this.selectedKeys.size;
+    this.selectedKeys.forEach(key => {
+      if (!current.has(key)) {
+        this.selectedKeys.delete(key);
+      }
+    });
+    if (this.selectedKeys.size !== before) {
+      setTimeout(() => this.emitSelection());
+    }
+  }
+
+  private emitSelection(): void {
+    this.selectionChange.emit(this.rows.filter(row => this.isSelected(row)));
+  }
+
+  private parseSort(sort: string | null): ActiveSort | null {
+    if (!sort) {
+      return null;
+    }
+    const [field, direction] = sort.split(',');
+    return field ? { field, direction: direction === 'desc' ? 'desc' : 'asc' } : null;
+  }
+
+  private sortFieldOf(column: DataTableColumn<T>): string {
+    return column.sortField ?? column.key;
+  }
+
+  private get preferenceKey(): string {
+    return `table-columns:${this.tableId}`;
+  }
+}
+
+/**
+ * Compares cell values for client-side sorting; empty values sort last
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty || bEmpty) {
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
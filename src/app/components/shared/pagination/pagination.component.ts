@@ -1,5 +1,11 @@
 import { Component, EventEmitter, Input, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+/**
+ * Page sizes offered by default; list pages only accept these from the URL
+ */
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
 export interface PaginationInfo {
   currentPage: number;
@@ -11,7 +17,7 @@ export interface PaginationInfo {
 @Component({
   selector: 'app-pagination',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   template: `
     <nav aria-label="Page navigation" *ngIf="totalPages > 1">
       <ul class="pagination pagination-sm justify-content-center mb-0">
@@ -67,12 +73,37 @@ export interface PaginationInfo {
       </ul>
     </nav>
 
-    <!-- Page info -->
-    <div class="d-flex justify-content-center align-items-center mt-2" *ngIf="totalPages > 1">
+    <!-- Page info, page size and jump to page -->
+    <div class="d-flex flex-wrap justify-content-center align-items-center gap-3 mt-2" *ngIf="totalItems > 0">
       <small class="text-muted">
-        Showing {{ startItem }} to {{ endItem }} 
-        <!-- of {{ totalItems }} entries -->
+        Showing {{ startItem }} to {{ endItem }}
+        <ng-container *ngIf="!estimated">of {{ totalItems }} entries</ng-container>
       </small>
+
+      <div class="d-flex align-items-center gap-1">
+        <label for="paginationPageSize" class="small text-muted mb-0">Rows</label>
+        <select
+          id="paginationPageSize"
+          class="form-select form-select-sm w-auto"
+          [ngModel]="pageSize"
+          (ngModelChange)="onPageSizeChange($event)">
+          <option *ngFor="let option of pageSizeOptions" [ngValue]="option">{{ option }}</option>
+        </select>
+      </div>
+
+      <div class="d-flex align-items-center gap-1" *ngIf="totalPages > 1">
+        <label for="paginationJump" class="small text-muted mb-0">Go to</label>
+        <input
+          id="paginationJump"
+          type="number"
+          class="form-control form-control-sm jump-input"
+          min="1"
+          [max]="totalPages"
+          [(ngModel)]="jumpPage"
+          (keydown.enter)="onJump()"
+          [attr.aria-label]="'Page number, 1 to ' + totalPages">
+        <button type="button" class="btn btn-outline-secondary btn-sm" (click)="onJump()" [disabled]="!jumpPage">Go</button>
+      </div>
     </div>
   `,
   styles: [`
@@ -98,13 +129,23 @@ export interface PaginationInfo {
       background-color: #fff;
       border-color: #dee2e6;
     }
+
+    .jump-input {
+      width: 4.5rem;
+    }
   `]
 })
 export class PaginationComponent {
   @Input() currentPage: number = 1;
   @Input() pageSize: number = 10;
   @Input() totalItems: number = 0;
+  /** True when totals were inferred from a bare array, so the total count is not shown */
+  @Input() estimated: boolean = false;
+  @Input() pageSizeOptions: number[] = PAGE_SIZE_OPTIONS;
   @Output() pageChange = new EventEmitter<number>();
+  @Output() pageSizeChange = new EventEmitter<number>();
+
+  jumpPage: number | null = null;
 
   get totalPages(): number {
     return Math.ceil(this.totalItems / this.pageSize);
@@ -171,4 +212,25 @@ export class PaginationComponent {
       this.pageChange.emit(page);
     }
   }
+
+  /**
+   * Jump to the typed page number, clamped to the available pages
+   */
+  onJump(): void {
+    if (!this.jumpPage) {
+      return;
+    }
+    const page = Math.min(Math.max(1, Math.floor(this.jumpPage)), this.totalPages);
+    this.jumpPage = null;
+    this.onPageChange(page);
+  }
+
+  /**
+   * Emit a new page size; the parent reloads from the first page
+   */
+  onPageSizeChange(size: number): void {
+    if (size !== this.pageSize) {
+      this.pageSizeChange.emit(size);
+    }
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable, of, timer } from 'rxjs';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
+import { LoadingService } from '../../../services/loading.service';
+
+/**
+ * Thin indeterminate progress bar pinned to the top of the page
+ * Shown while any HTTP request is in flight
+ */
+@Component({
+  selector: 'app-progress-bar',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './progress-bar.component.html',
+  styleUrl: './progress-bar.component.css'
+})
+export class ProgressBarComponent {
+  /** Requests faster than this never show the bar, which avoids flicker */
+  private readonly SHOW_DELAY_MS = 150;
+
+  visible$: Observable<boolean>;
+
+  constructor(loadingService: LoadingService) {
+    this.visible$ = loadingService.httpActive$.pipe(
+      switchMap(active => active ? timer(this.SHOW_DELAY_MS).pipe(map(() => true)) : of(false)),
+      distinctUntilChanged()
+    );
+  }
+}
@@ -1,19 +1,49 @@
 import { CommonModule } from '@angular/common';
-import { Component, Input, Output, EventEmitter, OnInit } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, Subject, catchError, debounceTime, distinctUntilChanged, filter, map, of, switchMap, takeUntil, tap } from 'rxjs';
+import { SearchPreset } from '../../../models/search-preset.model';
+import { SearchPresetService } from '../../../services/search-preset.service';
+import { ToastService } from '../../../services/toast.service';
+
+/**
+ * Option of a select, multiselect or typeahead field
+ */
+export interface SearchOption {
+  value: string;
+  label: string;
+}
+
+export type SearchFieldType = 'text' | 'number' | 'email' | 'date' | 'select' | 'multiselect' | 'range' | 'typeahead';
 
 /**
  * Search field configuration interface
+ *
+ * - select/multiselect: options, or loadOptions for options fetched once on init;
+ *   a multiselect value is the selected option values joined by commas
+ * - range: two inputs of rangeType, emitted as `<key>From` and `<key>To`
+ * - typeahead: lookup is called with the typed text (debounced) and the picked option's value is emitted;
+ *   resolveOption turns a value restored from the URL or a preset back into its label
  */
 export interface SearchField {
   key: string;
   label: string;
   placeholder?: string;
-  type?: 'text' | 'number' | 'email' | 'date';
+  type?: SearchFieldType;
   required?: boolean;
   max?: string;
   min?: string;
   value?: string; // Default value for the field
+  pattern?: string; // Regex the value must match (text fields)
+  patternMessage?: string;
+  options?: SearchOption[];
+  loadOptions?: () => Observable<SearchOption[]>;
+  rangeType?: 'number' | 'date';
+  lookup?: (term: string) => Observable<SearchOption[]>;
+  resolveOption?: (value: string) => Observable<SearchOption | null>;
+  minChars?: number; // Typeahead: characters typed before looking up (default 2)
+  debounceMs?: number; // Typeahead: wait after typing before looking up (default 300)
 }
 
 /**
@@ -26,6 +56,9 @@ export interface SearchCriteria {
 /**
  * Reusable search component that can be configured with different search fields
  * Used across multiple pages for consistent search functionality
+ *
+ * With a presetKey users can save named searches for the page, pick a default
+ * that runs when the page opens without criteria, and share a search by link
  */
 @Component({
   selector: 'app-search-panel',
@@ -34,30 +67,210 @@ export interface SearchCriteria {
   templateUrl: './search-panel.component.html',
   styleUrl: './search-panel.component.css'
 })
-export class SearchPanelComponent implements OnInit {
+export class SearchPanelComponent implements OnInit, OnChanges, OnDestroy {
   @Input() searchFields: SearchField[] = [];
   @Input() title: string = 'Search';
   @Input() showSearchIcon: boolean = true;
   @Input() searchButtonText: string = 'Search';
   @Input() searchButtonSize: 'sm' | 'md' | 'lg' = 'sm';
+  /** Values to show in the fields, e.g. criteria restored from the URL */
+  @Input() values: SearchCriteria | null = null;
+  /** Page key for saved searches; saved searches are hidden when empty */
+  @Input() presetKey: string = '';
   
   @Output() search = new EventEmitter<SearchCriteria>();
   @Output() clear = new EventEmitter<void>();
 
   searchValues: { [key: string]: string } = {};
+  fieldErrors: { [key: string]: string } = {};
+
+  // Options of select/multiselect fields, static or loaded
+  fieldOptions: { [key: string]: SearchOption[] } = {};
+
+  // Typeahead state: text shown in the input, suggestions and which list is open
+  typeaheadText: { [key: string]: string } = {};
+  typeaheadOptions: { [key: string]: SearchOption[] } = {};
+  typeaheadLoading: { [key: string]: boolean } = {};
+  openTypeahead: string | null = null;
+  highlightedOption = 0;
+  private typeaheadTerms: { [key: string]: Subject<string> } = {};
+  // Picks made per typeahead, so typing a term again after a pick looks it up again
+  private typeaheadPicks: { [key: string]: number } = {};
+
+  private destroy$ = new Subject<void>();
+
+  // Saved searches
+  presets: SearchPreset[] = [];
+  selectedPresetId: string | null = null;
+  defaultPresetId: string | null = null;
+  savingPreset = false;
+  presetName = '';
+  sharedPreset: { name: string; criteria: SearchCriteria } | null = null; // Opened from a shared link
+
+  private readonly SHARED_PRESET_PARAM = 'preset';
+
+  constructor(
+    private searchPresetService: SearchPresetService,
+    private toastService: ToastService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {}
 
   ngOnInit() {
     // Initialize search values for all fields
     this.searchFields.forEach(field => {
-      this.searchValues[field.key] = field.value || '';
+      this.setFieldValue(field, null);
+      this.setupFieldOptions(field);
+    });
+    this.applyValues();
+
+    if (this.presetKey) {
+      this.loadPresets();
+      this.readSharedPreset();
+      this.applyDefaultPreset();
+    }
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Fields are initialized in ngOnInit; only re-apply later changes here
+    if (changes['values'] && !changes['values'].firstChange) {
+      this.applyValues();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Copies the bound values into the fields, falling back to each field's default
+   */
+  private applyValues(): void {
+    if (!this.values) {
+      return;
+    }
+    this.searchFields.forEach(field => this.setFieldValue(field, this.values));
+    this.fieldErrors = {};
+    this.updateDateConstraints();
+  }
+
+  /**
+   * Sets a field's value(s) from criteria, falling back to the field default
+   * @param field - Field to set
+   * @param source - Criteria to read from, or null for the default
+   */
+  private setFieldValue(field: SearchField, source: SearchCriteria | null): void {
+    this.valueKeys(field).forEach(key => {
+      const value = source?.[key];
+      this.searchValues[key] = value !== null && value !== undefined ? value.toString() : field.value || '';
     });
+
+    if (field.type === 'typeahead') {
+      this.showTypeaheadLabel(field);
+    }
+  }
+
+  /**
+   * Gets the criteria keys a field writes: `<key>From`/`<key>To` for ranges, else the key itself
+   * @param field - Search field
+   * @returns Criteria keys
+   */
+  valueKeys(field: SearchField): string[] {
+    return field.type === 'range' ? [`${field.key}From`, `${field.key}To`] : [field.key];
   }
 
   /**
    * Handles search button click
-   * Emits search criteria with non-empty values
+   * Emits search criteria with non-empty values, unless a field is invalid
    */
   onSearch(): void {
+    if (!this.validate()) {
+      return;
+    }
+    this.openTypeahead = null;
+    this.search.emit(this.currentCriteria());
+  }
+
+  /**
+   * Validates every field and records the messages shown below them
+   * @returns True when all fields are valid
+   */
+  validate(): boolean {
+    const errors: { [key: string]: string } = {};
+
+    this.searchFields.forEach(field => {
+      const error = this.validateField(field);
+      if (error) {
+        errors[field.key] = error;
+      }
+    });
+
+    this.fieldErrors = errors;
+    return Object.keys(errors).length === 0;
+  }
+
+  /**
+   * Validates one field
+   * @param field - Field to validate
+   * @returns Error message, or null when valid
+   */
+  private validateField(field: SearchField): string | null {
+    const values = this.valueKeys(field).map(key => (this.searchValues[key] || '').trim());
+
+    if (field.required && values.every(value => !value)) {
+      return `${field.label} is required`;
+    }
+
+    switch (field.type) {
+      case 'number':
+        return values[0] && !isFinite(Number(values[0])) ? `${field.label} must be a number` : this.validateBounds(field, values[0]);
+      case 'range': {
+        const [from, to] = values;
+        if (field.rangeType !== 'date' && [from, to].some(value => value && !isFinite(Number(value)))) {
+          return `${field.label} must be a number`;
+        }
+        const outOfBounds = this.validateBounds(field, from) || this.validateBounds(field, to);
+        if (outOfBounds) {
+          return outOfBounds;
+        }
+        const reversed = field.rangeType === 'date' ? from > to : Number(from) > Number(to);
+        return from && to && reversed ? `${field.label}: "from" cannot be greater than "to"` : null;
+      }
+      case 'typeahead':
+        // Typed text that wasn't picked from the suggestions doesn't identify anything
+        return (this.typeaheadText[field.key] || '').trim() && !values[0]
+          ? `Pick a ${field.label.toLowerCase()} from the suggestions`
+          : null;
+      default:
+        if (field.pattern && values[0] && !new RegExp(field.pattern).test(values[0])) {
+          return field.patternMessage || `${field.label} is not valid`;
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Checks a number or date value against the field's min and max
+   */
+  private validateBounds(field: SearchField, value: string): string | null {
+    if (!value) {
+      return null;
+    }
+    const isDate = field.type === 'date' || field.rangeType === 'date';
+    const below = field.min !== undefined && (isDate ? value < field.min : Number(value) < Number(field.min));
+    const above = field.max !== undefined && (isDate ? value > field.max : Number(value) > Number(field.max));
+    if (below) {
+      return `${field.label} cannot be less than ${field.min}`;
+    }
+    return above ? `${field.label} cannot be more than ${field.max}` : null;
+  }
+
+  /**
+   * Collects the non-empty field values
+   * @returns SearchCriteria
+   */
+  private currentCriteria(): SearchCriteria {
     const criteria: SearchCriteria = {};
     
     // Only include non-empty values in search criteria
@@ -68,7 +281,7 @@ export class SearchPanelComponent implements OnInit {
       }
     });
 
-    this.search.emit(criteria);
+    return criteria;
   }
 
   /**
@@ -76,10 +289,202 @@ export class SearchPanelComponent implements OnInit {
    * Resets all search values and emits clear event
    */
   onClear(): void {
+    this.searchFields.forEach(field => this.setFieldValue(field, null));
+    this.fieldErrors = {};
+    this.openTypeahead = null;
+    this.selectedPresetId = null;
+    this.clear.emit();
+  }
+
+  /**
+   * Gets the saved search picked in the dropdown
+   */
+  get selectedPreset(): SearchPreset | null {
+    return this.presets.find(preset => preset.id === this.selectedPresetId) ?? null;
+  }
+
+  /**
+   * Runs the saved search picked in the dropdown
+   * @param presetId - ID of the picked preset
+   */
+  onPresetSelected(presetId: string | null): void {
+    this.selectedPresetId = presetId;
+    const preset = this.selectedPreset;
+    if (preset) {
+      this.applyPreset(preset);
+    }
+  }
+
+  /**
+   * Shows the name input for saving the current search
+   */
+  startSavePreset(): void {
+    this.presetName = this.selectedPreset?.name ?? '';
+    this.savingPreset = true;
+  }
+
+  /**
+   * Hides the name input without saving
+   */
+  cancelSavePreset(): void {
+    this.savingPreset = false;
+    this.presetName = '';
+  }
+
+  /**
+   * Saves the current field values under the entered name
+   */
+  savePreset(): void {
+    const name = this.presetName.trim();
+    if (!name) {
+      return;
+    }
+
+    const preset = this.searchPresetService.savePreset(this.presetKey, name, this.currentCriteria());
+    this.loadPresets();
+    this.selectedPresetId = preset.id;
+    this.cancelSavePreset();
+    this.toastService.showSuccess(`Search "${preset.name}" saved`);
+  }
+
+  /**
+   * Deletes the selected saved search
+   */
+  deleteSelectedPreset(): void {
+    const preset = this.selectedPreset;
+    if (!preset || !confirm(`Delete saved search "${preset.name}"?`)) {
+      return;
+    }
+
+    this.searchPresetService.deletePreset(this.presetKey, preset.id);
+    this.selectedPresetId = null;
+    this.loadPresets();
+    this.toastService.showSuccess(`Search "${preset.name}" deleted`);
+  }
+
+  /**
+   * Makes the selected saved search the page default, or clears it if it already is
+   */
+  toggleDefaultPreset(): void {
+    const preset = this.selectedPreset;
+    if (!preset) {
+      return;
+    }
+
+    const isDefault = this.defaultPresetId === preset.id;
+    this.searchPresetService.setDefaultPreset(this.presetKey, isDefault ? null : preset.id);
+    this.loadPresets();
+    this.toastService.showSuccess(isDefault
+      ? 'Default search cleared'
+      : `"${preset.name}" will run when this page opens`);
+  }
+
+  /**
+   * Copies a link that opens this page with the selected search and offers to save it
+   */
+  copyPresetLink(): void {
+    const preset = this.selectedPreset;
+    if (!preset) {
+      return;
+    }
+
+    const queryParams: { [key: string]: string } = { [this.SHARED_PRESET_PARAM]: preset.name };
+    Object.entries(preset.criteria).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value.toString().trim() !== '') {
+        queryParams[key] = value.toString();
+      }
+    });
+    const urlTree = this.router.createUrlTree([], { relativeTo: this.route, queryParams });
+    const link = `${window.location.origin}${this.router.serializeUrl(urlTree)}`;
+
+    if (!navigator.clipboard) {
+      this.toastService.showInfo(link, 'Share this link');
+      return;
+    }
+    navigator.clipboard.writeText(link)
+      .then(() => this.toastService.showSuccess('Link copied to clipboard'))
+      .catch(error => {
+        console.error('Error copying link:', error);
+        this.toastService.showInfo(link, 'Share this link');
+      });
+  }
+
+  /**
+   * Saves a search opened from a shared link to the user's own saved searches
+   */
+  saveSharedPreset(): void {
+    if (!this.sharedPreset) {
+      return;
+    }
+
+    const preset = this.searchPresetService.savePreset(this.presetKey, this.sharedPreset.name, this.sharedPreset.criteria);
+    this.loadPresets();
+    this.selectedPresetId = preset.id;
+    this.sharedPreset = null;
+    this.toastService.showSuccess(`Search "${preset.name}" saved`);
+  }
+
+  /**
+   * Hides the shared search banner
+   */
+  dismissSharedPreset(): void {
+    this.sharedPreset = null;
+  }
+
+  private loadPresets(): void {
+    this.presets = this.searchPresetService.getPresets(this.presetKey);
+    this.defaultPresetId = this.searchPresetService.getDefaultPreset(this.presetKey)?.id ?? null;
+  }
+
+  /**
+   * Fills the fields from a saved search and runs it
+   */
+  private applyPreset(preset: SearchPreset): void {
+    this.selectedPresetId = preset.id;
+    this.searchFields.forEach(field => this.setFieldValue(field, preset.criteria));
+    this.updateDateConstraints();
+    this.onSearch();
+  }
+
+  /**
+   * Runs the page's default saved search when the page opened without search criteria
+   */
+  private applyDefaultPreset(): void {
+    const preset = this.searchPresetService.getDefaultPreset(this.presetKey);
+    const hasCriteria = this.searchFields.some(field =>
+      this.valueKeys(field).some(key => (this.searchValues[key] || '') !== (field.value || ''))
+    );
+    if (preset && !hasCriteria && !this.sharedPreset) {
+      // Run after the page's first change detection, which is still in progress
+      setTimeout(() => this.applyPreset(preset));
+    }
+  }
+
+  /**
+   * Picks up a search shared by link, unless the user already saved it
+   */
+  private readSharedPreset(): void {
+    const params = this.route.snapshot.queryParamMap;
+    const name = params.get(this.SHARED_PRESET_PARAM)?.trim();
+    if (!name) {
+      return;
+    }
+
+    const criteria: SearchCriteria = {};
     this.searchFields.forEach(field => {
-      this.searchValues[field.key] = field.value || '';
+      this.valueKeys(field).forEach(key => {
+        const value = params.get(key);
+        if (value) {
+          criteria[key] = value;
+        }
+      });
     });
-    this.clear.emit();
+
+    const alreadySaved = this.presets.some(preset =>
+      preset.name.toLowerCase() === name.toLowerCase() &&
+      JSON.stringify(preset.criteria) === JSON.stringify(criteria)
+    );
+    this.sharedPreset = alreadySaved ? null : { name, criteria };
   }
 
   /**
@@ -99,6 +504,7 @@ export class SearchPanelComponent implements OnInit {
    */
   onModelChange(fieldKey: string, value: string): void {
     this.searchValues[fieldKey] = value;
+    this.clearFieldError(fieldKey);
     
     // Update date constraints dynamically
     if (fieldKey === 'startDate' || fieldKey === 'endDate') {
@@ -106,6 +512,199 @@ export class SearchPanelComponent implements OnInit {
     }
   }
 
+  /**
+   * Removes the error of the field a value belongs to once the user changes it
+   * @param valueKey - Criteria key that changed
+   */
+  private clearFieldError(valueKey: string): void {
+    const field = this.searchFields.find(candidate => this.valueKeys(candidate).includes(valueKey));
+    if (field && this.fieldErrors[field.key]) {
+      const { [field.key]: _removed, ...rest } = this.fieldErrors;
+      this.fieldErrors = rest;
+    }
+  }
+
+  /**
+   * Prepares select options and typeahead lookups for a field
+   * @param field - Field to prepare
+   */
+  private setupFieldOptions(field: SearchField): void {
+    if (field.type === 'select' || field.type === 'multiselect') {
+      this.fieldOptions[field.key] = field.options ?? [];
+      field.loadOptions?.()
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: options => this.fieldOptions[field.key] = options,
+          error: (error: any) => console.error(`Error loading ${field.label} options:`, error)
+        });
+    }
+
+    if (field.type === 'typeahead') {
+      this.typeaheadOptions[field.key] = [];
+    }
+
+    if (field.type === 'typeahead' && field.lookup) {
+      const lookup = field.lookup;
+      const terms = new Subject<string>();
+      this.typeaheadTerms[field.key] = terms;
+
+      terms.pipe(
+        debounceTime(field.debounceMs ?? 300), // Wait until the user stops typing
+        map(term => ({ term, pick: this.typeaheadPicks[field.key] ?? 0 })),
+        distinctUntilChanged((previous, current) => previous.term === current.term && previous.pick === current.pick),
+        map(({ term }) => term),
+        tap(term => {
+          if (term.length < (field.minChars ?? 2)) {
+            this.typeaheadOptions[field.key] = [];
+          }
+        }),
+        filter(term => term.length >= (field.minChars ?? 2)),
+        tap(() => this.typeaheadLoading[field.key] = true),
+        switchMap(term => lookup(term).pipe(
+          catchError(error => {
+            console.error(`Error looking up ${field.label}:`, error);
+            return of([] as SearchOption[]);
+          })
+        )),
+        takeUntil(this.destroy$)
+      ).subscribe(options => {
+        this.typeaheadLoading[field.key] = false;
+        this.typeaheadOptions[field.key] = options;
+        this.highlightedOption = 0;
+      });
+    }
+  }
+
+  /**
+   * Checks whether a multiselect option is selected
+   */
+  isOptionSelected(field: SearchField, option: SearchOption): boolean {
+    return this.selectedValues(field).includes(option.value);
+  }
+
+  /**
+   * Selects or deselects a multiselect option
+   */
+  toggleOption(field: SearchField, option: SearchOption): void {
+    const selected = this.selectedValues(field);
+    const next = selected.includes(option.value)
+      ? selected.filter(value => value !== option.value)
+      : [...selected, option.value];
+    this.onModelChange(field.key, next.join(','));
+  }
+
+  /**
+   * Gets the text shown on a multiselect button
+   */
+  multiselectSummary(field: SearchField): string {
+    const selected = this.selectedValues(field);
+    if (selected.length === 0) {
+      return field.placeholder || 'Any';
+    }
+    if (selected.length > 2) {
+      return `${selected.length} selected`;
+    }
+    const options = this.fieldOptions[field.key] ?? [];
+    return selected.map(value => options.find(option => option.value === value)?.label ?? value).join(', ');
+  }
+
+  private selectedValues(field: SearchField): string[] {
+    return (this.searchValues[field.key] || '').split(',').filter(value => value);
+  }
+
+  /**
+   * Handles typing in a typeahead; the previous pick no longer applies
+   * @param field - Typeahead field
+   * @param text - Typed text
+   */
+  onTypeaheadInput(field: SearchField, text: string): void {
+    this.typeaheadText[field.key] = text;
+    this.searchValues[field.key] = '';
+    this.clearFieldError(field.key);
+    this.openTypeahead = field.key;
+    this.typeaheadTerms[field.key]?.next(text.trim());
+  }
+
+  /**
+   * Picks a typeahead suggestion
+   */
+  selectTypeaheadOption(field: SearchField, option: SearchOption): void {
+    this.searchValues[field.key] = option.value;
+    this.typeaheadText[field.key] = option.label;
+    this.typeaheadOptions[field.key] = [];
+    this.typeaheadPicks[field.key] = (this.typeaheadPicks[field.key] ?? 0) + 1;
+    this.openTypeahead = null;
+    this.clearFieldError(field.key);
+  }
+
+  /**
+   * Keyboard navigation in typeahead suggestions; Enter searches when the list is closed
+   */
+  onTypeaheadKeyDown(field: SearchField, event: KeyboardEvent): void {
+    const options = this.openTypeahead === field.key ? this.typeaheadOptions[field.key] ?? [] : [];
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (options.length) {
+          event.preventDefault();
+          const step = event.key === 'ArrowDown' ? 1 : -1;
+          this.highlightedOption = (this.highlightedOption + step + options.length) % options.length;
+        }
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (options.length) {
+          this.selectTypeaheadOption(field, options[this.highlightedOption] ?? options[0]);
+        } else {
+          this.onSearch();
+        }
+        break;
+      case 'Escape':
+        this.openTypeahead = null;
+        break;
+    }
+  }
+
+  /**
+   * Closes the suggestions when the typeahead loses focus
+   */
+  onTypeaheadBlur(field: SearchField): void {
+    if (this.openTypeahead === field.key) {
+      this.openTypeahead = null;
+    }
+  }
+
+  /**
+   * Shows the label of a typeahead's current value, resolving it when needed
+   * @param field - Typeahead field
+   */
+  private showTypeaheadLabel(field: SearchField): void {
+    const value = this.searchValues[field.key];
+    if (!value) {
+      this.typeaheadText[field.key] = '';
+      return;
+    }
+
+    const known = this.typeaheadOptions[field.key]?.find(option => option.value === value);
+    this.typeaheadText[field.key] = known?.label ?? value;
+    if (known || !field.resolveOption) {
+      return;
+    }
+
+    field.resolveOption(value)
+      .pipe(
+        catchError(() => of(null)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(option => {
+        // Ignore the answer if the value changed meanwhile
+        if (option && this.searchValues[field.key] === value) {
+          this.typeaheadText[field.key] = option.label;
+        }
+      });
+  }
+
   /**
    * Updates date field constraints based on current values
    */
@@ -139,7 +738,8 @@ export class SearchPanelComponent implements OnInit {
    * @returns boolean indicating if any field has a value
    */
   hasSearchValues(): boolean {
-    return Object.values(this.searchValues).some(value => value?.trim());
+    return Object.values(this.searchValues).some(value => value?.trim()) ||
+      Object.values(this.typeaheadText).some(text => text?.trim());
   }
 
   /**
@@ -1,28 +1,51 @@
-import { Component, EventEmitter, Input, Output, OnInit, OnDestroy } from '@angular/core';
+import { Component, EventEmitter, Input, Output, OnInit, OnDestroy, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { Subject, takeUntil } from 'rxjs';
 import { OrderItemWithProduct } from '../../models/order.model';
+import { OrderPayment, PAYMENT_METHOD_LABELS } from '../../models/payment.model';
 import { Product } from '../../models/product.model';
+import { ReturnRequest, ReturnResponse } from '../../models/return.model';
 import { ProductService } from '../../services/product.service';
+import { OrderTotals, TaxOptions, summarizeOrder } from '../../utils/pricing.util';
+import { estimateRefund, getReturnError, getReturnableQuantity, getReturnedQuantities } from '../../utils/return.util';
 
 /**
  * Modal component for viewing order items
  * Displays items in a horizontal scrollable card carousel
+ * Users allowed to create returns can select items and quantities to return from here
  */
 @Component({
   selector: 'view-order-items-modal',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   templateUrl: './view-order-items-modal.component.html',
   styleUrls: ['./view-order-items-modal.component.css']
 })
-export class ViewOrderItemsModalComponent implements OnInit, OnDestroy {
+export class ViewOrderItemsModalComponent implements OnInit, OnChanges, OnDestroy {
   @Input() show = false;
   @Input() orderItems: OrderItemWithProduct[] = [];
+  @Input() orderDiscount = 0; // Order-level discount in rupees
+  @Input() taxOptions: TaxOptions = { mode: 'INCLUSIVE', interState: false };
+  @Input() payment: OrderPayment | null = null;
+  @Input() returns: ReturnResponse[] = [];
+  @Input() canReturn = false;
+  @Input() submittingReturn = false;
   @Output() showChange = new EventEmitter<boolean>();
+  @Output() returnSubmitted = new EventEmitter<ReturnRequest>();
+  @Output() creditNoteDownload = new EventEmitter<number>();
+
+  readonly methodLabels = PAYMENT_METHOD_LABELS;
 
   // Products for mapping product names
   products: Product[] = [];
+
+  // Return being entered, by order item ID
+  returnMode = false;
+  returnQuantities: { [key: number]: number } = {};
+  returnReason = '';
+  returnAttempted = false;
+  returnedQuantities: { [key: number]: number } = {};
   
   // Component destruction subject for cleanup
   private destroy$ = new Subject<void>();
@@ -33,6 +56,16 @@ export class ViewOrderItemsModalComponent implements OnInit, OnDestroy {
     this.loadProducts();
   }
 
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['returns']) {
+      this.returnedQuantities = getReturnedQuantities(this.returns);
+    }
+    // A new order starts from a clean return form; the parent clears it after a successful return
+    if (changes['orderItems']) {
+      this.cancelReturn();
+    }
+  }
+
   ngOnDestroy() {
     this.destroy$.next();
     this.destroy$.complete();
@@ -75,12 +108,12 @@ export class ViewOrderItemsModalComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Calculates total price for an order item
+   * Calculates total price for an order item, after its discount
    * @param item - The order item
    * @returns Total price
    */
   getTotalPrice(item: OrderItemWithProduct): number {
-    return item.quantity * item.sellingPrice;
+    return summarizeOrder([item], 0, this.taxOptions).total;
   }
 
   /**
@@ -91,18 +124,102 @@ export class ViewOrderItemsModalComponent implements OnInit, OnDestroy {
     return this.orderItems.reduce((sum, item) => sum + item.quantity, 0);
   }
 
+  /**
+   * Subtotal, discounts and grand total of the order
+   * @returns Totals breakdown
+   */
+  getTotals(): OrderTotals {
+    return summarizeOrder(this.orderItems, this.orderDiscount, this.taxOptions);
+  }
+
   /**
    * Calculates grand total of all order items
    * @returns Grand total
    */
   getGrandTotal(): number {
-    return this.orderItems.reduce((sum, item) => sum + this.getTotalPrice(item), 0);
+    return this.getTotals().total;
+  }
+
+  /**
+   * How much of an item can still be returned
+   * @param item - The order item
+   * @returns Sold quantity less earlier returns
+   */
+  getReturnableQuantity(item: OrderItemWithProduct): number {
+    return getReturnableQuantity(item, this.returnedQuantities);
+  }
+
+  /**
+   * Whether any item can still be returned
+   */
+  hasReturnableItems(): boolean {
+    return this.orderItems.some(item => this.getReturnableQuantity(item) > 0);
+  }
+
+  /**
+   * Refund expected for the return being entered
+   * @returns Refund in rupees
+   */
+  getRefundEstimate(): number {
+    return estimateRefund(this.orderItems, this.orderDiscount, this.taxOptions, this.returnQuantities);
+  }
+
+  /**
+   * Why the return being entered cannot be sent, or null
+   */
+  getReturnError(): string | null {
+    return getReturnError(this.orderItems, this.returnedQuantities, this.returnQuantities, this.returnReason);
+  }
+
+  /**
+   * Starts selecting items to return
+   */
+  startReturn() {
+    this.returnMode = true;
+  }
+
+  /**
+   * Leaves return mode and clears the return form
+   */
+  cancelReturn() {
+    this.returnMode = false;
+    this.returnQuantities = {};
+    this.returnReason = '';
+    this.returnAttempted = false;
+  }
+
+  /**
+   * Sets the quantity of an item to return; an empty field counts as none
+   * @param item - The order item
+   * @param value - Entered quantity
+   */
+  setReturnQuantity(item: OrderItemWithProduct, value: number | null) {
+    this.returnQuantities = { ...this.returnQuantities, [item.id]: value === null ? 0 : Number(value) };
+  }
+
+  /**
+   * Sends the return for the selected items once it is valid
+   */
+  submitReturn() {
+    this.returnAttempted = true;
+    if (this.getReturnError() || this.submittingReturn || this.orderItems.length === 0) {
+      return;
+    }
+
+    this.returnSubmitted.emit({
+      orderId: this.orderItems[0].orderId,
+      items: this.orderItems
+        .filter(item => (this.returnQuantities[item.id] ?? 0) > 0)
+        .map(item => ({ orderItemId: item.id, quantity: this.returnQuantities[item.id] })),
+      reason: this.returnReason.trim()
+    });
   }
 
   /**
    * Closes the modal
    */
   closeModal() {
+    this.cancelReturn();
     this.showChange.emit(false);
   }
 
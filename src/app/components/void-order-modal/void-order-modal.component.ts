@@ -0,0 +1,61 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+/**
+ * Modal component for voiding an order
+ * Asks for the reason, which the backend keeps in the order's audit trail
+ */
+@Component({
+  selector: 'void-order-modal',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './void-order-modal.component.html',
+  styleUrls: ['./void-order-modal.component.css']
+})
+export class VoidOrderModalComponent implements OnChanges {
+  @Input() show = false;
+  @Input() orderId: number | null = null;
+  @Input() isSubmitting = false;
+  @Output() showChange = new EventEmitter<boolean>();
+  @Output() voidConfirmed = new EventEmitter<string>();
+
+  reason = '';
+  submitted = false;
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['show'] && this.show) {
+      this.reason = '';
+      this.submitted = false;
+    }
+  }
+
+  /**
+   * Sends the reason once one is given
+   */
+  onSubmit(): void {
+    this.submitted = true;
+    if (!this.reason.trim() || this.isSubmitting) {
+      return;
+    }
+    this.voidConfirmed.emit(this.reason.trim());
+  }
+
+  /**
+   * Closes the modal
+   */
+  closeModal(): void {
+    this.show = false;
+    this.showChange.emit(false);
+  }
+
+  /**
+   * Handles backdrop click to close modal
+   * @param event - The click event
+   */
+  onBackdropClick(event: Event): void {
+    if (event.target === event.currentTarget && !this.isSubmitting) {
+      this.closeModal();
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Directive, Input, OnDestroy, TemplateRef, ViewContainerRef } from '@angular/core';
+import { ReplaySubject, Subject, distinctUntilChanged, switchMap, takeUntil } from 'rxjs';
+import { RoleService } from '../services/role.service';
+import { Permission } from '../models/permission.model';
+
+/**
+ * Structural directive that renders its template only if the current user
+ * holds a permission, and updates live when the user or matrix changes
+ *
+ * Usage:
+ *   <button *appCan="'inventory:edit'">Edit</button>
+ *   <td *appCan="'products:edit'; else readOnly">...</td>
+ */
+@Directive({
+  selector: '[appCan]',
+  standalone: true
+})
+export class CanDirective implements OnDestroy {
+  private permission$ = new ReplaySubject<Permission>(1);
+  private elseTemplate: TemplateRef<unknown> | null = null;
+  private hasPermission: boolean | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private roleService: RoleService
+  ) {
+    this.permission$
+      .pipe(
+        distinctUntilChanged(),
+        switchMap(permission => this.roleService.can(permission)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(hasPermission => {
+        this.hasPermission = hasPermission;
+        this.render();
+      });
+  }
+
+  /**
+   * Permission required to render the template, e.g. 'inventory:edit'
+   */
+  @Input() set appCan(permission: Permission) {
+    this.permission$.next(permission);
+  }
+
+  /**
+   * Template rendered when the permission is missing
+   */
+  @Input() set appCanElse(template: TemplateRef<unknown> | null) {
+    this.elseTemplate = template;
+    this.render();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Swap between the main and else templates
+   */
+  private render(): void {
+    if (this.hasPermission === null) {
+      return;
+    }
+
+    this.viewContainer.clear();
+    if (this.hasPermission) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+    } else if (this.elseTemplate) {
+      this.viewContainer.createEmbeddedView(this.elseTemplate);
+    }
+  }
+}
@@ -1,12 +1,18 @@
 import { Injectable } from '@angular/core';
-import { CanActivate, Router, ActivatedRouteSnapshot } from '@angular/router';
-import { Observable, map } from 'rxjs';
+import { CanActivate, Router, ActivatedRouteSnapshot, RouterStateSnapshot, RedirectCommand } from '@angular/router';
+import { Observable, filter, map, of, switchMap, take } from 'rxjs';
 import { AuthService } from '../services/auth.service';
+import { PermissionService } from '../services/permission.service';
+import { RoleService } from '../services/role.service';
 import { Role } from '../models/auth.model';
+import { Permission } from '../models/permission.model';
 
 /**
- * Role guard to protect routes based on user roles
- * Redirects operators away from supervisor-only routes like reports
+ * Role guard to protect routes based on the permissions they declare
+ * Routes list required permissions in `data.permissions` (all must be granted);
+ * a legacy `data.role` requirement is still honoured
+ * Denied users are shown the 403 page instead of being sent to login
+ * Waits for the permission matrix to load so a backend matrix is never checked before it arrives
  */
 @Injectable({
   providedIn: 'root'
@@ -15,46 +21,58 @@ export class RoleGuard implements CanActivate {
 
   constructor(
     private authService: AuthService,
+    private roleService: RoleService,
+    private permissionService: PermissionService,
     private router: Router
   ) {}
 
   /**
-   * Check if user has the required role to access the route
+   * Check if user has the permissions required to access the route
    * @param route - The route being accessed
-   * @returns Observable<boolean> - true if user has access, false otherwise
+   * @param state - Router state, used to tell the 403 page what was requested
+   * @returns Observable<boolean | RedirectCommand> - true if user has access, otherwise false or a redirect to the 403 page
    */
-  canActivate(route: ActivatedRouteSnapshot): Observable<boolean> {
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | RedirectCommand> {
     return this.authService.authState.pipe(
-      map(authState => {
+      switchMap(authState => {
         // Check if user is authenticated
         if (!authState.isAuthenticated || !authState.user) {
           this.router.navigate(['/auth']);
-          return false;
+          return of(false);
         }
 
-        // Get the required role from route data
-        const requiredRole = route.data?.['role'] as Role;
-        
-        // If no specific role is required, allow access
-        if (!requiredRole) {
-          return true;
-        }
+        return this.permissionService.matrixLoaded$.pipe(
+          filter(Boolean),
+          take(1),
+          map(() => this.checkPermissions(authState.user!.role, route, state))
+        );
+      })
+    );
+  }
 
-        // Check if user has the required role
-        if (authState.user.role === requiredRole) {
-          return true;
-        }
+  /**
+   * Check a role against the route's requirements once the permission matrix is loaded
+   * @param role - Role of the signed-in user
+   * @param route - The route being accessed
+   * @param state - Router state, used to tell the 403 page what was requested
+   * @returns true if the role has access, otherwise a redirect to the 403 page
+   */
+  private checkPermissions(role: Role, route: ActivatedRouteSnapshot, state: RouterStateSnapshot): true | RedirectCommand {
+    const requiredRole = route.data?.['role'] as Role | undefined;
+    const requiredPermissions = (route.data?.['permissions'] ?? []) as Permission[];
 
-        // For operators trying to access supervisor routes, redirect to home
-        if (authState.user.role === Role.OPERATOR && requiredRole === Role.SUPERVISOR) {
-          this.router.navigate(['/']);
-          return false;
-        }
+    const hasRole = !requiredRole || role === requiredRole;
+    const hasPermissions = requiredPermissions.every(permission =>
+      this.roleService.roleHasPermission(role, permission));
 
-        // Default: deny access
-        this.router.navigate(['/']);
-        return false;
-      })
-    );
+    if (hasRole && hasPermissions) {
+      return true;
+    }
+
+    // Keep the requested URL in the address bar and explain why it is unavailable
+    return new RedirectCommand(this.router.createUrlTree(['/forbidden']), {
+      skipLocationChange: true,
+      state: { from: state.url, permissions: requiredPermissions }
+    });
   }
-} 
\ No newline at end of file
+}
@@ -1,15 +1,16 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { Router } from '@angular/router';
-import { catchError, throwError, switchMap, of } from 'rxjs';
+import { Observable, catchError, throwError, switchMap } from 'rxjs';
 import { AuthService } from '../services/auth.service';
 import { ToastService } from '../services/toast.service';
+import { AppConfigService } from '../services/app-config.service';
 
 /**
  * HTTP Interceptor function to add JWT authentication headers to all API requests
  * Automatically includes JWT token in Authorization header for protected routes
- * Handles 401 unauthorized errors globally with token validation
- * 
+ * Handles 401 unauthorized errors globally by refreshing the token and replaying the request
+ *
  * This is a functional interceptor compatible with Angular standalone components
  */
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
@@ -17,30 +18,27 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
   const authService = inject(AuthService);
   const toastService = inject(ToastService);
   const router = inject(Router);
+  const appConfig = inject(AppConfigService);
 
-  // Check if the request is for an API endpoint
+  // Check if the request is for the configured API (base URL or endpoint overrides)
   const isApiRequest = (url: string): boolean => {
-    // Check if URL contains API endpoints
-    return url.includes('/api/') || 
-           url.includes('/auth') ||
-           url.includes('/clients') || 
-           url.includes('/products') || 
-           url.includes('/inventory') || 
-           url.includes('/orders') || 
-           url.includes('/reports') || 
-           url.includes('/invoice');
+    return appConfig.isApiRequest(url);
   };
 
-  // Check if this is a login or signup request
+  // Check if this is a login, signup, refresh or password reset request
   const isAuthRequest = (url: string): boolean => {
-    return url.includes('/auth/login') || url.includes('/auth/signup');
+    const authUrl = appConfig.getEndpointUrl('auth');
+    return url.startsWith(`${authUrl}/login`) ||
+           url.startsWith(`${authUrl}/signup`) ||
+           url.startsWith(`${authUrl}/refresh`) ||
+           url.startsWith(`${authUrl}/forgot-password`) ||
+           url.startsWith(`${authUrl}/reset-password`);
   };
 
-  // Only add headers for API requests (not for assets, etc.)
-  if (isApiRequest(req.url)) {
-    const isFormData = req.body instanceof FormData;
-    const token = authService.token;
-    
+  // Clone the request and add authentication headers
+  const withAuthHeaders = (request: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> => {
+    const isFormData = request.body instanceof FormData;
+
     // Prepare headers
     const headers: { [key: string]: string } = {
       ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
@@ -48,67 +46,81 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
     };
 
     // Add Authorization header with JWT token for non-auth requests
-    if (token && !isAuthRequest(req.url)) {
+    if (token && !isAuthRequest(request.url)) {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    // Clone the request and add authentication headers
-    const authRequest = req.clone({
+    return request.clone({
       setHeaders: headers
     });
-    
+  };
+
+  // End the session: show error once, clear state and redirect to login
+  const endSession = (message: string, reason: string): Observable<never> => {
+    if (authService.isAuthenticated) {
+      toastService.showError(message);
+    }
+    authService.clearAuthState();
+    router.navigate(['/auth']);
+    return throwError(() => new Error(reason));
+  };
+
+  // Only add headers for API requests (not for assets, etc.)
+  if (isApiRequest(req.url)) {
+    // Token the request last went out with, to tell a stale token from one a refresh already replaced
+    let sentToken: string | null = null;
+    const send = (token: string | null) => {
+      sentToken = token;
+      return next(withAuthHeaders(req, token));
+    };
+
+    // Requests made while a refresh is in flight wait for the new token
+    const request$ = authService.isRefreshing && !isAuthRequest(req.url)
+      ? authService.refresh().pipe(
+          catchError(() => endSession('Your session has expired. Please login again.', 'Token expired')),
+          switchMap(token => send(token))
+        )
+      : send(authService.token);
+
     // Handle the request and catch 401 errors
-    return next(authRequest).pipe(
+    return request$.pipe(
       catchError((error: HttpErrorResponse) => {
         // Handle 401 Unauthorized errors globally
         if (error.status === 401 && !isAuthRequest(req.url)) {
-          console.log('401 error detected, checking token validity...');
-          
-          // Check if user should still be authenticated (has valid token)
           if (authService.isAuthenticated && authService.currentUser) {
-            console.log('User appears to be authenticated, validating token...');
-            
-            // Try to validate token
-            return authService.validateToken().pipe(
-              switchMap(isValid => {
-                if (isValid) {
-                  console.log('Token is valid, retrying original request...');
-                  // Token is valid, retry the original request
-                  return next(authRequest);
-                } else {
-                  console.log('Token validation failed, redirecting to auth...');
-                  // Token validation failed, show error and redirect
-                  toastService.showError('Your session has expired. Please login again.');
-                  authService.clearAuthState();
-                  router.navigate(['/auth']);
-                  return throwError(() => new Error('Token expired'));
-                }
-              }),
+            // A refresh finished while this request was out: replay it rather than refresh again,
+            // as rotated refresh tokens only work once
+            const currentToken = authService.token;
+            if (currentToken && currentToken !== sentToken) {
+              return send(currentToken);
+            }
+
+            console.log('401 error detected, refreshing token...');
+
+            // Concurrent 401s share one refresh, then each request is replayed with the new token
+            return authService.refresh().pipe(
               catchError(() => {
-                console.log('Token validation failed, redirecting to auth...');
-                // Token validation failed, redirect to login
-                toastService.showError('Your session has expired. Please login again.');
-                authService.clearAuthState();
-                router.navigate(['/auth']);
-                return throwError(() => new Error('Token expired'));
-              })
+                console.log('Token refresh failed, redirecting to auth...');
+                return endSession('Your session has expired. Please login again.', 'Token expired');
+              }),
+              switchMap(token => send(token))
             );
-          } else {
-            // User is not authenticated, redirect to login
-            console.log('User not authenticated, redirecting to auth...');
-            toastService.showError('Authentication required. Please login.');
-            authService.clearAuthState();
-            router.navigate(['/auth']);
-            return throwError(() => new Error('Authentication required'));
           }
+
+          // User is not authenticated, redirect to login
+          console.log('User not authenticated, redirecting to auth...');
+          toastService.showError('Authentication required. Please login.');
+          authService.clearAuthState();
+          router.navigate(['/auth']);
+          return throwError(() => new Error('Authentication required'));
         }
-        
+
         // For non-401 errors or auth requests, pass them through
         return throwError(() => error);
       })
     );
   }
-  
+
   // For non-API requests, proceed without modification
   return next(req);
-};
\ No newline at end of file
+};
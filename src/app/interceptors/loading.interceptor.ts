@@ -0,0 +1,13 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { LoadingService } from '../services/loading.service';
+
+/**
+ * HTTP Interceptor function that counts in-flight requests
+ * Drives the global progress bar shown at the top of every page
+ */
+export const loadingInterceptor: HttpInterceptorFn = (req, next) => {
+  const loadingService = inject(LoadingService);
+
+  return next(req).pipe(loadingService.trackHttp());
+};
@@ -0,0 +1,36 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { TimeoutError, catchError, throwError, timeout } from 'rxjs';
+import { APP_CONFIG, AppConfigService } from '../services/app-config.service';
+
+/**
+ * HTTP Interceptor function that applies the configured timeouts to API requests
+ * File uploads (FormData bodies) use the longer upload timeout
+ *
+ * Timeouts are surfaced as an HttpErrorResponse so services handle them like any other error
+ */
+export const timeoutInterceptor: HttpInterceptorFn = (req, next) => {
+  const appConfig = inject(AppConfigService);
+  const config = inject(APP_CONFIG);
+
+  if (!appConfig.isApiRequest(req.url)) {
+    return next(req);
+  }
+
+  const timeoutMs = req.body instanceof FormData ? config.timeouts.upload : config.timeouts.default;
+
+  return next(req).pipe(
+    timeout(timeoutMs),
+    catchError(error => {
+      if (error instanceof TimeoutError) {
+        return throwError(() => new HttpErrorResponse({
+          error: 'The server took too long to respond. Please try again.',
+          status: 0,
+          statusText: 'Timeout',
+          url: req.url
+        }));
+      }
+      return throwError(() => error);
+    })
+  );
+};
@@ -0,0 +1,36 @@
+/**
+ * Query string values accepted by the shared API service
+ * Empty, null and undefined values are left out of the URL
+ */
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Response returned by the TSV upload endpoints
+ * On errors the backend sends back a TSV of the failed rows
+ */
+export interface UploadResponse {
+    status: 'success' | 'error';
+    tsvBase64?: string;
+    filename?: string;
+}
+
+/**
+ * Structured error body returned by the backend
+ */
+export interface ApiErrorResponse {
+    error: string;
+    message: string;
+    timestamp: string;
+    path: string;
+}
+
+/**
+ * One page of results from a paged endpoint
+ */
+export interface Page<T> {
+    content: T[];
+    totalElements: number;
+    totalPages: number;
+    // True when the backend sent a bare array and the totals were inferred from it
+    estimated?: boolean;
+}
@@ -0,0 +1,86 @@
+/**
+ * Runtime application configuration models
+ * Loaded from public/config.json at bootstrap so one build can target any backend
+ */
+
+import { TaxMode } from './order.model';
+import { PermissionMatrix } from './permission.model';
+
+/**
+ * Backend resources the app talks to
+ */
+export type ApiEndpoint = 'auth' | 'users' | 'clients' | 'products' | 'inventory' | 'orders' | 'invoice' | 'reports' | 'returns';
+
+/**
+ * Request timeouts in milliseconds
+ */
+export interface ApiTimeouts {
+    default: number;
+    upload: number;
+}
+
+/**
+ * Session settings
+ */
+export interface AuthSettings {
+    refreshLeadSeconds: number; // How long before JWT expiry to refresh proactively
+}
+
+/**
+ * Inactivity settings for shared terminals, in seconds
+ * A lockAfterSeconds of 0 disables the idle lock
+ */
+export interface IdleSettings {
+    lockAfterSeconds: number; // Idle time before the lock screen appears
+    warningSeconds: number; // Countdown shown before locking
+    logoutAfterSeconds: number; // Idle time before the session is ended
+}
+
+/**
+ * Where the role permission matrix comes from
+ * 'backend' fetches it from <auth endpoint>/permissions after login,
+ * falling back to the configured (or built-in) matrix if that fails
+ */
+export interface PermissionSettings {
+    source: 'config' | 'backend';
+    matrix?: PermissionMatrix;
+}
+
+/**
+ * Largest discount each role may give, as a percentage of the amount discounted
+ * Roles not listed may not give discounts
+ */
+export interface DiscountSettings {
+    maxPercentByRole: Record<string, number>;
+}
+
+/**
+ * GST settings for the order builder
+ */
+export interface TaxSettings {
+    priceMode: TaxMode; // Whether entered selling prices include GST by default
+}
+
+/**
+ * How new orders are sent to the backend
+ * 'items' posts the bare item array older backends expect, with the order discount moved onto the items;
+ * 'order' posts { items, discount, taxMode, interState } for backends that store order discounts and GST
+ */
+export interface OrderSettings {
+    requestBody: 'items' | 'order';
+}
+
+/**
+ * Root configuration object
+ */
+export interface AppConfig {
+    apiBaseUrl: string;
+    endpoints: Partial<Record<ApiEndpoint, string>>;
+    timeouts: ApiTimeouts;
+    auth: AuthSettings;
+    idle: IdleSettings;
+    permissions: PermissionSettings;
+    discounts: DiscountSettings;
+    tax: TaxSettings;
+    orders: OrderSettings;
+}
@@ -28,6 +28,29 @@ export interface SignupForm {
   password: string;
 }
 
+/**
+ * Forgot password form model (requests a reset token by email)
+ */
+export interface ForgotPasswordForm {
+  email: string;
+}
+
+/**
+ * Reset password form model (sets a new password with the emailed token)
+ */
+export interface ResetPasswordForm {
+  token: string;
+  newPassword: string;
+}
+
+/**
+ * Change password form model for signed-in users
+ */
+export interface ChangePasswordForm {
+  currentPassword: string;
+  newPassword: string;
+}
+
 /**
  * User response model
  */
@@ -36,6 +59,8 @@ export interface UserResponse {
   email: string;
   name: string;
   role: Role;
+  active?: boolean; // false once a supervisor deactivates the account
+  passwordResetRequired?: boolean; // true until the user sets a new password
 }
 
 /**
@@ -45,6 +70,16 @@ export interface LoginResponse {
   message: string;
   user: UserResponse;
   token: string; // JWT token
+  refreshToken?: string; // Long-lived token exchanged at /auth/refresh
+}
+
+/**
+ * Refresh response model with the new JWT token
+ */
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string; // Present when the backend rotates refresh tokens
+  user?: UserResponse;
 }
 
 /**
@@ -55,4 +90,8 @@ export interface AuthState {
   user: UserResponse | null;
   loading: boolean;
   error: string | null;
-} 
\ No newline at end of file
+} 
+/**
+ * Session change made in another browser tab
+ */
+export type SessionSyncEvent = 'login' | 'logout' | 'refresh' | 'user-updated';
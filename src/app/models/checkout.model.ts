@@ -0,0 +1,25 @@
+/**
+ * Checkout (point of sale) models
+ */
+
+/**
+ * One product line of the sale being rung up
+ */
+export interface CheckoutLine {
+    productId: number;
+    barcode: string;
+    name: string;
+    mrp: number;
+    quantity: number;
+    taxRate?: number; // GST percent
+}
+
+/**
+ * Running totals of the sale
+ */
+export interface CheckoutTotals {
+    lines: number;
+    items: number; // Sum of quantities
+    tax: number; // GST included in or added to the amount
+    amount: number;
+}
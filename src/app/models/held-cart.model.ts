@@ -0,0 +1,30 @@
+import { Discount, OrderItemForm, TaxMode } from "./order.model";
+import { ProductLookup } from "./product.model";
+
+/**
+ * Held (parked) cart models for the order builder
+ */
+
+/**
+ * Order being built, with the per-line lookup state needed to resume it
+ */
+export interface OrderDraft {
+    orderItems: OrderItemForm[];
+    barcodeValidationState: { [key: number]: 'pending' | 'valid' | 'invalid' };
+    validatedBarcodes: { [key: number]: boolean };
+    products: { [key: number]: ProductLookup | null };
+    priceOverrides: { [key: number]: boolean };
+    orderDiscount?: Discount | null;
+    taxMode?: TaxMode;
+    interState?: boolean;
+}
+
+/**
+ * Draft parked under a name while the cashier serves another customer
+ */
+export interface HeldCart {
+    id: string;
+    name: string;
+    heldAt: number;
+    draft: OrderDraft;
+}
@@ -0,0 +1,16 @@
+/**
+ * Inactivity monitor models
+ */
+
+/**
+ * Stage of the inactivity lock
+ */
+export type IdleStatus = 'active' | 'warning' | 'locked';
+
+/**
+ * Current inactivity state
+ */
+export interface IdleState {
+    status: IdleStatus;
+    secondsUntilLock: number; // Countdown shown while status is 'warning'
+}
@@ -12,22 +12,76 @@ export interface OrderItem {
     sellingPrice: number;
 }
 
+/**
+ * How a discount is given: a percentage of the amount, or a fixed rupee amount
+ */
+export type DiscountType = 'PERCENT' | 'FIXED';
+
+/**
+ * Whether selling prices already include GST or have it added on top
+ */
+export type TaxMode = 'INCLUSIVE' | 'EXCLUSIVE';
+
+/**
+ * Where an order is in its lifecycle
+ * Only orders without an invoice can be voided
+ */
+export enum OrderStatus {
+    CREATED = 'CREATED',
+    INVOICED = 'INVOICED',
+    VOIDED = 'VOIDED',
+    RETURNED = 'RETURNED'
+}
+
+export interface Discount {
+    type: DiscountType;
+    value: number;
+}
+
 export interface OrderItemForm {
     barcode: string;
     quantity: number;
-    mrp: number;
+    mrp: number; // Selling price per unit
+    discount?: Discount | null;
+}
+
+/**
+ * Body sent to create an order when config.json sets `orders.requestBody` to 'order';
+ * otherwise only the items are sent
+ */
+export interface OrderRequest {
+    items: OrderItemForm[];
+    discount?: Discount | null; // Applied to the total after line discounts
+    taxMode?: TaxMode;
+    interState?: boolean; // IGST instead of CGST + SGST
 }
 
 export interface OrderSearchRequest {
     startDate?: string;
     endDate?: string;
     orderId?: number;
+    status?: OrderStatus;
+}
+
+/**
+ * Body sent to void an order
+ */
+export interface VoidOrderRequest {
+    reason: string;
 }
 
 export interface OrderResponse {
     id: number;
     time: string;
     orderItems: OrderItemResponse[];
+    discountAmount?: number; // Order-level discount in rupees
+    taxMode?: TaxMode;
+    interState?: boolean;
+    status?: OrderStatus; // Missing from older backends; the invoice check decides then
+    // Audit trail of a voided order
+    voidReason?: string;
+    voidedBy?: string;
+    voidedAt?: string;
 }
 
 export interface OrderItemResponse {
@@ -36,9 +90,27 @@ export interface OrderItemResponse {
     productId: number;
     quantity: number;
     sellingPrice: number;
+    discountAmount?: number; // Discount on the whole line in rupees
+    taxRate?: number; // GST percent
+    taxAmount?: number; // GST on the line in rupees
 }
 
 export interface OrderItemWithProduct extends OrderItemResponse {
     productName: string;
     barcode: string;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Progress of an invoice action run on several selected orders
+ */
+export interface InvoiceBatchProgress {
+    action: 'generate' | 'download';
+    total: number;
+    done: number;
+    failures: InvoiceBatchFailure[];
+}
+
+export interface InvoiceBatchFailure {
+    orderId: number;
+    message: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * How the customer paid (part of) an order
+ */
+export type PaymentMethod = "CASH" | "CARD" | "UPI";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    CASH: "Cash",
+    CARD: "Card",
+    UPI: "UPI"
+};
+
+/**
+ * One tender of a payment; a split payment has several
+ */
+export interface PaymentTender {
+    method: PaymentMethod;
+    amount: number; // For cash, the amount handed over
+    reference?: string; // Card approval code or UPI transaction ID
+}
+
+export interface OrderPayment {
+    orderId: number;
+    tenders: PaymentTender[];
+    amountDue: number;
+    change: number; // Cash given back
+    paidAt: string;
+}
+
+export interface TenderSummary {
+    paid: number;
+    cash: number;
+    remaining: number; // Still to be paid
+    change: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * Permission models shared by route guards and UI checks
+ */
+
+/**
+ * Resources that permissions apply to
+ */
+export type PermissionResource = 'users' | 'clients' | 'products' | 'inventory' | 'orders' | 'invoices' | 'reports' | 'returns';
+
+/**
+ * Actions that can be granted on a resource
+ */
+export type PermissionAction = 'view' | 'create' | 'edit' | 'upload' | 'generate' | 'void';
+
+/**
+ * Permission in `resource:action` form, e.g. `products:upload`
+ */
+export type Permission = `${PermissionResource}:${PermissionAction}`;
+
+/**
+ * Actions granted per resource for one role
+ */
+export type ResourcePermissions = Partial<Record<PermissionResource, PermissionAction[]>>;
+
+/**
+ * Permission matrix: role name -> actions per resource
+ * Keyed by plain role names so roles defined by the backend need no frontend change
+ */
+export interface PermissionMatrix {
+    [role: string]: ResourcePermissions;
+}
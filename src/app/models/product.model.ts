@@ -5,17 +5,28 @@ export interface Product {
     name: string;
     mrp: number;
     imageUrl?: string;
+    hsnCode?: string;
+    taxRate?: number; // GST percent
     version: number;
     createdAt: string;
     updatedAt: string;
 }
 
+/**
+ * Product found by a barcode lookup, with the stock available to sell
+ */
+export interface ProductLookup extends Product {
+    availableQuantity: number;
+}
+
 export interface ProductRequest {
     barcode: string;
     clientId: number;
     name: string;
     mrp: number;
     imageUrl?: string;
+    hsnCode?: string;
+    taxRate?: number;
 }
 
 export interface ProductSearchRequest {
@@ -28,6 +39,8 @@ export interface ProductUpdateRequest {
     name: string;
     mrp: number;
     imageUrl?: string;
+    hsnCode?: string;
+    taxRate?: number;
 }
 
 export interface ProductUploadResponse {
@@ -0,0 +1,32 @@
+export interface ReturnItemRequest {
+    orderItemId: number;
+    quantity: number;
+}
+
+/**
+ * Body sent to return items of an order
+ * The backend restocks the returned quantities and issues a credit note
+ */
+export interface ReturnRequest {
+    orderId: number;
+    items: ReturnItemRequest[];
+    reason: string;
+}
+
+export interface ReturnItemResponse {
+    id: number;
+    orderItemId: number;
+    productId: number;
+    quantity: number;
+    amount: number; // Refund for the returned quantity in rupees
+}
+
+export interface ReturnResponse {
+    id: number;
+    orderId: number;
+    time: string;
+    reason: string;
+    creditNoteNumber: string;
+    amount: number; // Total refund in rupees
+    items: ReturnItemResponse[];
+}
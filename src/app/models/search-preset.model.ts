@@ -0,0 +1,23 @@
+import { SearchCriteria } from "../components/shared/search-panel/search-panel.component";
+
+/**
+ * Saved search preset models
+ */
+
+/**
+ * Named search criteria saved by a user for one page
+ */
+export interface SearchPreset {
+    id: string;
+    name: string;
+    criteria: SearchCriteria;
+    createdAt: number;
+}
+
+/**
+ * Presets of one page, as stored per user
+ */
+export interface SearchPresetStore {
+    presets: SearchPreset[];
+    defaultId: string | null; // Preset applied when the page opens without search criteria
+}
@@ -0,0 +1,5 @@
+import { Role } from './auth.model';
+
+export interface UserRoleUpdateRequest {
+    role: Role;
+}
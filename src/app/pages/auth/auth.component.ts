@@ -1,14 +1,20 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
 import { Subject, takeUntil } from 'rxjs';
 import { CommonModule } from '@angular/common';
 import { AuthService } from '../../services/auth.service';
-import { LoginForm, SignupForm } from '../../models/auth.model';
+import { LoginForm, SignupForm, ForgotPasswordForm, ResetPasswordForm } from '../../models/auth.model';
+import { passwordMatchValidator } from '../../validators/password-match.validator';
 import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
 
 /**
- * Authentication component that handles both login and signup
+ * Which form the auth page is showing
+ */
+type AuthMode = 'login' | 'signup' | 'forgot' | 'reset';
+
+/**
+ * Authentication component that handles login, signup and password reset
  * Clean, professional UI with proper form validation
  * No app-bar as specified in requirements
  */
@@ -23,14 +29,18 @@ export class AuthComponent implements OnInit, OnDestroy {
   // Form management
   loginForm: FormGroup;
   signupForm: FormGroup;
+  forgotForm: FormGroup;
+  resetForm: FormGroup;
   
   // UI state
-  isLoginMode = true;
+  authMode: AuthMode = 'login';
   isLoading = false;
   
   // Password visibility state
   showLoginPassword = false;
   showSignupPassword = false;
+  showResetPassword = false;
+  showResetConfirmPassword = false;
   
   // Component cleanup
   private destroy$ = new Subject<void>();
@@ -38,11 +48,21 @@ export class AuthComponent implements OnInit, OnDestroy {
   constructor(
     private fb: FormBuilder,
     private authService: AuthService,
-    private router: Router
+    private router: Router,
+    private route: ActivatedRoute
   ) {
     // Initialize forms
     this.loginForm = this.initializeLoginForm();
     this.signupForm = this.initializeSignupForm();
+    this.forgotForm = this.initializeForgotForm();
+    this.resetForm = this.initializeResetForm();
+  }
+
+  /**
+   * Whether the login form is showing
+   */
+  get isLoginMode(): boolean {
+    return this.authMode === 'login';
   }
 
   ngOnInit(): void {
@@ -57,6 +77,17 @@ export class AuthComponent implements OnInit, OnDestroy {
           this.router.navigate(['/']);
         }
       });
+
+    // Links from the reset email open the page with the token prefilled
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const resetToken = params.get('resetToken');
+        if (resetToken) {
+          this.authMode = 'reset';
+          this.resetForm.patchValue({ token: resetToken });
+        }
+      });
       // this.loginForm.reset();
       // this.signupForm.reset();
 
@@ -98,11 +129,38 @@ private initializeLoginForm(): FormGroup {
     });
   }
 
+  /**
+   * Initialize forgot password form with validation
+   */
+  private initializeForgotForm(): FormGroup {
+    return this.fb.group({
+      email: ['', [Validators.required, Validators.email]]
+    });
+  }
+
+  /**
+   * Initialize reset password form with validation
+   */
+  private initializeResetForm(): FormGroup {
+    return this.fb.group({
+      token: ['', [Validators.required]],
+      newPassword: ['', [Validators.required, Validators.minLength(6)]],
+      confirmPassword: ['', [Validators.required]]
+    }, { validators: passwordMatchValidator('newPassword', 'confirmPassword') });
+  }
+
   /**
    * Toggles between login and signup modes
    */
   toggleMode(): void {
-    this.isLoginMode = !this.isLoginMode;
+    this.setMode(this.authMode === 'login' ? 'signup' : 'login');
+  }
+
+  /**
+   * Switches to the given form, clearing any entered values
+   */
+  setMode(mode: AuthMode): void {
+    this.authMode = mode;
     
     // Clear any existing errors when switching modes
     this.loginForm.reset();
@@ -111,6 +169,24 @@ private initializeLoginForm(): FormGroup {
     // Re-initialize forms to ensure proper validation state
     this.loginForm = this.initializeLoginForm();
     this.signupForm = this.initializeSignupForm();
+    this.forgotForm = this.initializeForgotForm();
+    this.resetForm = this.initializeResetForm();
+  }
+
+  /**
+   * Subtitle shown under the logo for the current mode
+   */
+  get modeSubtitle(): string {
+    switch (this.authMode) {
+      case 'signup':
+        return 'Create your account';
+      case 'forgot':
+        return 'Reset your password';
+      case 'reset':
+        return 'Choose a new password';
+      default:
+        return 'Sign in to your account';
+    }
   }
 
   /**
@@ -127,6 +203,20 @@ private initializeLoginForm(): FormGroup {
     this.showSignupPassword = !this.showSignupPassword;
   }
 
+  /**
+   * Toggles reset password visibility
+   */
+  toggleResetPasswordVisibility(): void {
+    this.showResetPassword = !this.showResetPassword;
+  }
+
+  /**
+   * Toggles reset confirm password visibility
+   */
+  toggleResetConfirmPasswordVisibility(): void {
+    this.showResetConfirmPassword = !this.showResetConfirmPassword;
+  }
+
   /**
    * Handle login form submission
    */
@@ -165,7 +255,7 @@ private initializeLoginForm(): FormGroup {
           next: () => {
             // Success handled in service (shows toast)
             // Switch to login mode after successful signup
-            this.isLoginMode = true;
+            this.authMode = 'login';
             this.signupForm.reset();
             // Pre-fill email in login form
             this.loginForm.patchValue({ email: signupData.email });
@@ -181,6 +271,57 @@ private initializeLoginForm(): FormGroup {
     }
   }
 
+  /**
+   * Handle forgot password form submission
+   */
+  onForgotSubmit(): void {
+    if (this.forgotForm.valid) {
+      const forgotData: ForgotPasswordForm = this.forgotForm.value;
+
+      this.authService.requestPasswordReset(forgotData)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: () => {
+            // Success handled in service (shows toast)
+            // Move on to entering the emailed code
+            this.setMode('reset');
+          },
+          error: () => {
+            // Error handled in service (shows toast)
+          }
+        });
+    } else {
+      this.markFormGroupTouched(this.forgotForm);
+    }
+  }
+
+  /**
+   * Handle reset password form submission
+   */
+  onResetSubmit(): void {
+    if (this.resetForm.valid) {
+      const { token, newPassword } = this.resetForm.value;
+      const resetData: ResetPasswordForm = { token, newPassword };
+
+      this.authService.resetPassword(resetData)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: () => {
+            // Success handled in service (shows toast)
+            this.setMode('login');
+            // Drop the token from the address bar so it isn't reused or shared
+            this.router.navigate([], { relativeTo: this.route, queryParams: {}, replaceUrl: true });
+          },
+          error: () => {
+            // Error handled in service (shows toast)
+            // Keep the token so the user can retry with a different password
+          }
+        });
+    } else {
+      this.markFormGroupTouched(this.resetForm);
+    }
+  }
+
   /**
    * Mark all form fields as touched to trigger validation display
    */
@@ -261,4 +402,62 @@ private initializeLoginForm(): FormGroup {
     }
     return '';
   }
-} 
\ No newline at end of file
+
+  /**
+   * Check if forgot password form field has error
+   */
+  hasForgotError(controlName: string): boolean {
+    const control = this.forgotForm.get(controlName);
+    return !!(control && control.invalid && (control.dirty || control.touched));
+  }
+
+  /**
+   * Get forgot password form field error message
+   */
+  getForgotErrorMessage(controlName: string): string {
+    const control = this.forgotForm.get(controlName);
+    if (control && control.errors) {
+      if (control.errors['required']) {
+        return 'Email is required';
+      }
+      if (control.errors['email']) {
+        return 'Please enter a valid email address';
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Check if reset password form field has error
+   */
+  hasResetError(controlName: string): boolean {
+    const control = this.resetForm.get(controlName);
+    return !!(control && control.invalid && (control.dirty || control.touched));
+  }
+
+  /**
+   * Get reset password form field error message
+   */
+  getResetErrorMessage(controlName: string): string {
+    const control = this.resetForm.get(controlName);
+    if (control && control.errors) {
+      if (control.errors['required']) {
+        switch (controlName) {
+          case 'token':
+            return 'Reset code is required';
+          case 'confirmPassword':
+            return 'Please confirm your new password';
+          default:
+            return 'New password is required';
+        }
+      }
+      if (control.errors['minlength']) {
+        return `Password must be at least ${control.errors['minlength'].requiredLength} characters`;
+      }
+      if (control.errors['passwordMismatch']) {
+        return 'Passwords do not match';
+      }
+    }
+    return '';
+  }
+}
@@ -0,0 +1,450 @@
+import { CommonModule } from '@angular/common';
+import { AfterViewInit, Component, ElementRef, HostListener, Inject, OnDestroy, QueryList, ViewChild, ViewChildren } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+import { PaymentModalComponent } from '../../components/payment-modal/payment-modal.component';
+import { AppConfig } from '../../models/app-config.model';
+import { CheckoutLine, CheckoutTotals } from '../../models/checkout.model';
+import { OrderItemForm, OrderResponse, TaxMode } from '../../models/order.model';
+import { OrderPayment } from '../../models/payment.model';
+import { Product } from '../../models/product.model';
+import { APP_CONFIG } from '../../services/app-config.service';
+import { IdleService } from '../../services/idle.service';
+import { OrderService } from '../../services/order.service';
+import { ProductService } from '../../services/product.service';
+import { ToastService } from '../../services/toast.service';
+import { TaxOptions, calculateOrder, summarizeOrder, taxOptionsOf } from '../../utils/pricing.util';
+import { ScanBuffer } from '../../utils/scan-buffer.util';
+
+/**
+ * Keyboard-first checkout for cashiers
+ * Products are added by scanning (keyboard-wedge scanners or typed barcodes); scanning
+ * a product again adds one more. Hotkeys change quantities, remove lines and complete the sale,
+ * which then asks for the payment
+ */
+@Component({
+  selector: 'app-checkout',
+  standalone: true,
+  imports: [CommonModule, FormsModule, PaymentModalComponent],
+  templateUrl: './checkout.component.html',
+  styleUrl: './checkout.component.css'
+})
+export class CheckoutComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('scanInput') scanInput?: ElementRef<HTMLInputElement>;
+  @ViewChildren('quantityInput') quantityInputs?: QueryList<ElementRef<HTMLInputElement>>;
+
+  lines: CheckoutLine[] = [];
+  selectedIndex = -1;
+  scanValue = '';
+  completing = false;
+  lastOrder: { id: number; amount: number; paid: boolean } | null = null;
+  showPaymentModal = false;
+  taxOptions: TaxOptions;
+
+  // Quantities of barcodes scanned while their product lookup is still running
+  private pendingScans = new Map<string, number>();
+  private scanBuffer = new ScanBuffer();
+  private readonly MAX_QUANTITY = 999999;
+  // + and - wait a little longer than the scanner's key gap, as they may start a barcode
+  private pendingHotkey: ReturnType<typeof setTimeout> | null = null;
+  private readonly CHARACTER_HOTKEY_DELAY_MS = 60;
+
+  // Component destruction subject for cleanup
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private productService: ProductService,
+    private orderService: OrderService,
+    private idleService: IdleService,
+    private toastService: ToastService,
+    @Inject(APP_CONFIG) config: AppConfig
+  ) {
+    // Sales at the till are priced like new orders in the order builder, and always within the state
+    const mode: TaxMode = config.tax.priceMode === 'EXCLUSIVE' ? 'EXCLUSIVE' : 'INCLUSIVE';
+    this.taxOptions = { mode, interState: false };
+  }
+
+  ngAfterViewInit(): void {
+    this.focusScan();
+  }
+
+  ngOnDestroy(): void {
+    this.cancelPendingHotkey();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Running totals of the sale
+   */
+  get totals(): CheckoutTotals {
+    const order = calculateOrder(this.lines.map(line => ({
+      price: line.mrp,
+      quantity: line.quantity,
+      taxRate: line.taxRate
+    })), null, this.taxOptions);
+    return {
+      lines: this.lines.length,
+      items: this.lines.reduce((sum, line) => sum + line.quantity, 0),
+      tax: order.tax,
+      amount: order.total
+    };
+  }
+
+  /**
+   * Whether any product lookup is still running
+   */
+  get lookingUp(): boolean {
+    return this.pendingScans.size > 0;
+  }
+
+  /**
+   * Page-wide keyboard handling: scanner bursts outside the scan field and hotkeys
+   * Everything is ignored while the screen is locked and while the sale is being completed,
+   * so nothing scanned then is added to lines that are about to be cleared
+   * @param event - Keyboard event
+   */
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeyDown(event: KeyboardEvent): void {
+    // The payment modal handles its own keys
+    if (this.idleService.isLocked || this.showPaymentModal || this.completing) {
+      this.scanBuffer.reset();
+      this.cancelPendingHotkey();
+      return;
+    }
+
+    // A key straight after + or - means a scan started with that character
+    this.cancelPendingHotkey();
+
+    const target = event.target as HTMLElement | null;
+    const inScanField = !!target && target === this.scanInput?.nativeElement;
+    const inOtherField = !inScanField && this.isEditable(target);
+
+    // Bursts are tracked in the scan field too, where the field itself submits the barcode;
+    // a scanner fired while focus is on a button or the page still adds the product
+    if (!inOtherField) {
+      const barcode = this.scanBuffer.push(event.key, event.timeStamp);
+      if (barcode && !inScanField) {
+        event.preventDefault();
+        this.addBarcode(barcode);
+        return;
+      }
+      if (this.scanBuffer.isScanning(event.timeStamp)) {
+        return;
+      }
+    }
+
+    this.handleHotkey(event, inScanField, inOtherField);
+  }
+
+  /**
+   * Adds the barcode typed or scanned into the scan field
+   */
+  onScanSubmit(): void {
+    const barcode = this.scanValue.trim();
+    this.scanValue = '';
+    if (barcode) {
+      this.addBarcode(barcode);
+    }
+  }
+
+  /**
+   * Adds one unit of a product; a product already in the sale gets its quantity increased
+   * @param barcode - Scanned barcode
+   */
+  addBarcode(barcode: string): void {
+    if (this.completing) {
+      return;
+    }
+    const key = barcode.toLowerCase();
+    const index = this.lines.findIndex(line => line.barcode.toLowerCase() === key);
+    if (index !== -1) {
+      this.selectedIndex = index;
+      this.changeQuantity(index, 1);
+      return;
+    }
+
+    // Repeat scans while the lookup runs are counted and added with the product
+    if (this.pendingScans.has(key)) {
+      this.pendingScans.set(key, (this.pendingScans.get(key) ?? 0) + 1);
+      return;
+    }
+    this.pendingScans.set(key, 1);
+
+    this.productService.getProductByBarcode(barcode)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (product: Product | null) => {
+          const quantity = this.pendingScans.get(key) ?? 1;
+          this.pendingScans.delete(key);
+
+          if (!product) {
+            this.toastService.showError(`Product with barcode: ${barcode} not found`);
+            return;
+          }
+          this.lines.push({
+            productId: product.id,
+            barcode: product.barcode,
+            name: product.name,
+            mrp: product.mrp,
+            quantity: Math.min(quantity, this.MAX_QUANTITY),
+            taxRate: product.taxRate
+          });
+          this.selectedIndex = this.lines.length - 1;
+        },
+        error: (error: any) => {
+          this.pendingScans.delete(key);
+          // Extract the exact error message from backend
+          let errorMessage = `Could not look up barcode: ${barcode}`;
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error looking up product:', error);
+        }
+      });
+  }
+
+  /**
+   * Changes a line's quantity by a step, keeping it between 1 and the maximum
+   * @param index - Line index
+   * @param delta - Step, e.g. 1 or -1
+   */
+  changeQuantity(index: number, delta: number): void {
+    const line = this.lines[index];
+    if (!line) {
+      return;
+    }
+    const quantity = line.quantity + delta;
+    if (quantity >= 1 && quantity <= this.MAX_QUANTITY) {
+      line.quantity = quantity;
+    }
+  }
+
+  /**
+   * Applies a quantity typed into a line, reverting invalid input
+   * @param index - Line index
+   * @param value - Typed quantity
+   */
+  setQuantity(index: number, value: string | number): void {
+    const line = this.lines[index];
+    const quantity = Number(value);
+    if (!line) {
+      return;
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > this.MAX_QUANTITY) {
+      this.toastService.showError('Quantity must be a whole number between 1 and 999,999');
+      const input = this.quantityInputs?.get(index)?.nativeElement;
+      if (input) {
+        input.value = line.quantity.toString();
+      }
+      return;
+    }
+    line.quantity = quantity;
+  }
+
+  /**
+   * Removes a line from the sale
+   * @param index - Line index
+   */
+  removeLine(index: number): void {
+    if (!this.lines[index]) {
+      return;
+    }
+    this.lines.splice(index, 1);
+    this.selectedIndex = Math.min(this.selectedIndex, this.lines.length - 1);
+  }
+
+  /**
+   * Creates the order for the current lines and starts a new sale
+   */
+  completeSale(): void {
+    if (this.completing) {
+      return;
+    }
+    if (this.lines.length === 0) {
+      this.toastService.showError('Scan at least one product to complete the sale');
+      return;
+    }
+    if (this.lookingUp) {
+      this.toastService.showError('Wait for the scanned products to load');
+      return;
+    }
+
+    const orderItems: OrderItemForm[] = this.lines.map(line => ({
+      barcode: line.barcode,
+      quantity: line.quantity,
+      mrp: line.mrp
+    }));
+
+    this.completing = true;
+    this.orderService.createOrder({
+      items: orderItems,
+      taxMode: this.taxOptions.mode,
+      interState: this.taxOptions.interState
+    })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (order: OrderResponse) => {
+          this.completing = false;
+          this.lastOrder = {
+            id: order.id,
+            amount: summarizeOrder(order.orderItems, order.discountAmount, taxOptionsOf(order)).total,
+            paid: false
+          };
+          this.lines = [];
+          this.selectedIndex = -1;
+          this.toastService.showSuccess(`Order #${order.id} completed`);
+          this.showPaymentModal = true;
+        },
+        error: (error: any) => {
+          this.completing = false;
+          // Extract the exact error message from backend
+          let errorMessage = 'Failed to complete the sale. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error creating order:', error);
+        }
+      });
+  }
+
+  /**
+   * Handles the payment recorded for the last sale
+   * @param payment - Recorded payment
+   */
+  onPaymentRecorded(payment: OrderPayment): void {
+    if (this.lastOrder?.id === payment.orderId) {
+      this.lastOrder.paid = true;
+    }
+    const change = payment.change > 0 ? ` Change: ₹${payment.change.toFixed(2)}` : '';
+    this.toastService.showSuccess(`Payment recorded for order #${payment.orderId}.${change}`);
+  }
+
+  /**
+   * Returns to scanning once the payment modal closes
+   * @param show - Modal visibility
+   */
+  onPaymentModalChange(show: boolean): void {
+    this.showPaymentModal = show;
+    if (!show) {
+      this.focusScan();
+    }
+  }
+
+  /**
+   * Selects a line, e.g. when it is clicked
+   * @param index - Line index
+   */
+  selectLine(index: number): void {
+    this.selectedIndex = index;
+  }
+
+  /**
+   * Moves focus back to the scan field
+   */
+  focusScan(): void {
+    setTimeout(() => this.scanInput?.nativeElement.focus());
+  }
+
+  /**
+   * Hotkeys:
+   * F2 scan field, F4 edit quantity, F9 complete sale (anywhere);
+   * Up/Down select line, +/- change quantity, Delete remove line (outside other inputs,
+   * and in the scan field only while it is empty); Escape returns to the scan field.
+   * + and - only act once no further key follows, as a scanner may be typing a barcode starting with them
+   */
+  private handleHotkey(event: KeyboardEvent, inScanField: boolean, inOtherField: boolean): void {
+    switch (event.key) {
+      case 'F2':
+        event.preventDefault();
+        this.focusScan();
+        return;
+      case 'F4':
+        event.preventDefault();
+        this.focusQuantity();
+        return;
+      case 'F9':
+        event.preventDefault();
+        this.completeSale();
+        return;
+      case 'Escape':
+        this.scanValue = '';
+        this.focusScan();
+        return;
+    }
+
+    // Other keys belong to the field being typed in
+    if (inOtherField || (inScanField && this.scanValue !== '')) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+        if (this.lines.length) {
+          event.preventDefault();
+          const step = event.key === 'ArrowDown' ? 1 : -1;
+          this.selectedIndex = Math.max(0, Math.min(this.lines.length - 1, this.selectedIndex + step));
+        }
+        break;
+      case '+':
+      case '-':
+        this.deferQuantityHotkey(event, inScanField);
+        break;
+      case 'Delete':
+        event.preventDefault();
+        this.removeLine(this.selectedIndex);
+        break;
+    }
+  }
+
+  /**
+   * Changes the selected line's quantity for + or -, unless another key follows within the scanner's key gap
+   * In the scan field the character is typed as usual and removed again if it turns out to be a hotkey
+   */
+  private deferQuantityHotkey(event: KeyboardEvent, inScanField: boolean): void {
+    const key = event.key;
+    if (!inScanField) {
+      event.preventDefault();
+    }
+
+    this.pendingHotkey = setTimeout(() => {
+      this.pendingHotkey = null;
+      if (inScanField) {
+        if (this.scanValue !== key) {
+          return;
+        }
+        this.scanValue = '';
+      }
+      this.changeQuantity(this.selectedIndex, key === '+' ? 1 : -1);
+    }, this.CHARACTER_HOTKEY_DELAY_MS);
+  }
+
+  private cancelPendingHotkey(): void {
+    if (this.pendingHotkey !== null) {
+      clearTimeout(this.pendingHotkey);
+      this.pendingHotkey = null;
+    }
+  }
+
+  /**
+   * Focuses the quantity input of the selected line
+   */
+  private focusQuantity(): void {
+    const input = this.quantityInputs?.get(this.selectedIndex)?.nativeElement;
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  }
+
+  private isEditable(element: HTMLElement | null): boolean {
+    if (!element) {
+      return false;
+    }
+    const tag = element.tagName;
+    return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || element.isContentEditable;
+  }
+}
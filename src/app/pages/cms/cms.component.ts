@@ -1,16 +1,22 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
 import { AddClientModalComponent } from '../../components/add-client-modal/add-client-modal.component';
 import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
 import { ErrorDisplayComponent } from '../../components/shared/error-display/error-display.component';
 import { SearchPanelComponent, SearchField, SearchCriteria } from '../../components/shared/search-panel/search-panel.component';
 import { PaginationComponent } from '../../components/shared/pagination/pagination.component';
+import { DataTableComponent, DataTableColumn } from '../../components/shared/data-table/data-table.component';
+import { DataTableCellDirective } from '../../components/shared/data-table/data-table-cell.directive';
 import { Client, ClientRequest } from '../../models/client.model';
+import { Page } from '../../models/api.model';
 import { ClientService } from '../../services/client.service';
 import { RoleService } from '../../services/role.service';
 import { ToastService } from '../../services/toast.service';
+import { CanDirective } from '../../directives/can.directive';
+import { ListQueryState, navigateToListQuery, readListQuery } from '../../utils/list-query.util';
 
 /**
  * CMS Component for managing clients
@@ -26,7 +32,10 @@ import { ToastService } from '../../services/toast.service';
     LoadingSpinnerComponent,
     ErrorDisplayComponent,
     SearchPanelComponent,
-    PaginationComponent
+    PaginationComponent,
+    DataTableComponent,
+    DataTableCellDirective,
+    CanDirective
   ],
   templateUrl: './cms.component.html',
   styleUrl: './cms.component.css'
@@ -45,7 +54,13 @@ export class CmsComponent {
   currentPage = 1;
   pageSize = 10;
   totalItems = 0;
+  totalIsEstimated = false;
   currentSearchTerm = '';
+  currentSort: string | null = null;
+  private readonly DEFAULT_PAGE_SIZE = 10;
+
+  // Search values restored from the URL
+  searchValues: SearchCriteria = {};
 
   // Search configuration for client name search
   searchFields: SearchField[] = [
@@ -57,17 +72,81 @@ export class CmsComponent {
     }
   ];
 
+  // Table columns; the actions column is only shown to users who can edit clients
+  columns: DataTableColumn<Client>[] = this.buildColumns(false);
+  clientKey = (client: Client) => client.clientId;
+  isEditingRow = (client: Client) => this.isEditing(client.clientId);
+
   // Component destruction subject for cleanup
   private destroy$ = new Subject<void>();
 
   constructor(
     private clientService: ClientService,
     public roleService: RoleService, // Made public for template access
-    private toastService: ToastService
+    private toastService: ToastService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit() {
-    this.loadClients();
+    this.roleService.canEdit('clients')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canEdit => this.columns = this.buildColumns(canEdit));
+
+    // Search, page, size and sort live in the URL so refresh, back/forward and shared links keep them
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const state = readListQuery(params, ['name'], this.DEFAULT_PAGE_SIZE);
+        this.currentSearchTerm = (state.criteria['name'] as string | undefined)?.trim() || '';
+        this.searchValues = state.criteria;
+        this.currentPage = state.page;
+        this.pageSize = state.size;
+        this.currentSort = state.sort;
+        this.reloadClients();
+      });
+  }
+
+  /**
+   * Loads the current page, applying the search term if present
+   */
+  private reloadClients(): void {
+    if (this.currentSearchTerm) {
+      this.searchClients();
+    } else {
+      this.loadClients();
+    }
+  }
+
+  /**
+   * Writes list state changes to the URL, which triggers the reload
+   * @param changes - Parts of the list state to change
+   */
+  private updateListQuery(changes: Partial<ListQueryState>): void {
+    const state: ListQueryState = {
+      criteria: this.currentSearchTerm ? { name: this.currentSearchTerm } : {},
+      page: this.currentPage,
+      size: this.pageSize,
+      sort: this.currentSort,
+      ...changes
+    };
+    navigateToListQuery(this.router, this.route, state, this.DEFAULT_PAGE_SIZE, () => this.reloadClients());
+  }
+
+  /**
+   * Builds the client table columns
+   * @param canEdit - Whether the current user can edit clients
+   * @returns Column definitions
+   */
+  private buildColumns(canEdit: boolean): DataTableColumn<Client>[] {
+    const columns: DataTableColumn<Client>[] = [
+      { key: 'clientId', header: 'ID', sortable: true, width: canEdit ? '10%' : '20%' },
+      { key: 'name', header: 'Name', sortable: true, editable: true }
+    ];
+    if (canEdit) {
+      columns.push({ key: 'actions', header: 'Actions', hideable: false, width: '30%' });
+    }
+    return columns;
   }
 
   /**
@@ -86,20 +165,14 @@ export class CmsComponent {
    */
   loadClients() {
     const page = this.currentPage - 1; // Convert to 0-based for API
-    this.clientService.getClients(page, this.pageSize)
+    this.clientService.getClients(page, this.pageSize, this.currentSort)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (clients: Client[]) => {
-          this.clients = clients;
-          // Note: Backend doesn't return total count, so we estimate based on page size
-          // If we get less than pageSize, we're on the last page
-          if (clients.length < this.pageSize) {
-            this.totalItems = (this.currentPage - 1) * this.pageSize + clients.length;
-          } else {
-            // Estimate total items (this is a limitation without total count from backend)
-            this.totalItems = this.currentPage * this.pageSize + 1;
-          }
-          this.toastService.showSuccess(`Loaded ${clients.length} clients successfully`);
+        next: (result: Page<Client>) => {
+          this.clients = result.content;
+          this.totalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
+          this.toastService.showSuccess(`Loaded ${result.content.length} clients successfully`);
         },
         error: (error: any) => {
           // Extract the exact error message from backend
@@ -252,7 +325,7 @@ export class CmsComponent {
    */
   retryLoadClients(): void {
     this.clientService.clearErrorState();
-    this.loadClients();
+    this.reloadClients();
   }
 
   /**
@@ -262,9 +335,8 @@ export class CmsComponent {
   onSearch(criteria: SearchCriteria): void {
     const name = criteria['name'] as string;
     if (name && name.trim()) {
-      this.currentSearchTerm = name.trim();
-      this.currentPage = 1; // Reset to first page when searching
-      this.searchClients();
+      // Reset to first page when searching
+      this.updateListQuery({ criteria: { name: name.trim() }, page: 1 });
     }
   }
 
@@ -273,18 +345,14 @@ export class CmsComponent {
    */
   private searchClients(): void {
     const page = this.currentPage - 1; // Convert to 0-based for API
-    this.clientService.searchClientsByName(this.currentSearchTerm, page, this.pageSize)
+    this.clientService.searchClientsByName(this.currentSearchTerm, page, this.pageSize, this.currentSort)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (clients: Client[]) => {
-          this.clients = clients;
-          // Estimate total items for pagination
-          if (clients.length < this.pageSize) {
-            this.totalItems = (this.currentPage - 1) * this.pageSize + clients.length;
-          } else {
-            this.totalItems = this.currentPage * this.pageSize + 1;
-          }
-          this.toastService.showSuccess(`Found ${clients.length} client(s) matching "${this.currentSearchTerm}"`);
+        next: (result: Page<Client>) => {
+          this.clients = result.content;
+          this.totalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
+          this.toastService.showSuccess(`Found ${result.totalElements} client(s) matching "${this.currentSearchTerm}"`);
         },
         error: (error: any) => {
           // Extract the exact error message from backend
@@ -303,9 +371,7 @@ export class CmsComponent {
    * Reloads all clients when search is cleared
    */
   onClearSearch(): void {
-    this.currentSearchTerm = '';
-    this.currentPage = 1;
-    this.loadClients();
+    this.updateListQuery({ criteria: {}, page: 1 });
   }
 
   /**
@@ -313,18 +379,29 @@ export class CmsComponent {
    * @param page - New page number
    */
   onPageChange(page: number): void {
-    this.currentPage = page;
-    if (this.currentSearchTerm) {
-      this.searchClients();
-    } else {
-      this.loadClients();
-    }
+    this.updateListQuery({ page });
+  }
+
+  /**
+   * Handles page size changes from pagination component
+   * @param size - New page size
+   */
+  onPageSizeChange(size: number): void {
+    this.updateListQuery({ size, page: 1 });
+  }
+
+  /**
+   * Handles sort changes from the data table
+   * @param sort - New sort, or null for the default order
+   */
+  onSortChange(sort: string | null): void {
+    this.updateListQuery({ sort, page: 1 });
   }
 
   // Observable streams from service
   // TODO: no need
   get loading$() {
-    return this.clientService.loading$;
+    return this.clientService.isLoading('search');
   }
   
   get error$() {
@@ -0,0 +1,30 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterModule } from '@angular/router';
+import { RoleService } from '../../services/role.service';
+
+/**
+ * 403 page shown when RoleGuard denies access to a route
+ * Explains what was requested and which permissions are missing
+ */
+@Component({
+  selector: 'app-forbidden',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './forbidden.component.html',
+  styleUrl: './forbidden.component.css'
+})
+export class ForbiddenComponent {
+  requestedUrl: string | null = null;
+  requiredPermissions: string[] = [];
+
+  constructor(
+    private router: Router,
+    public roleService: RoleService // Made public for template access
+  ) {
+    // Navigation state is only available while the navigation is in progress
+    const state = this.router.getCurrentNavigation()?.extras.state;
+    this.requestedUrl = state?.['from'] ?? null;
+    this.requiredPermissions = state?.['permissions'] ?? [];
+  }
+}
@@ -1,5 +1,6 @@
 import { Component } from '@angular/core';
 import { RouterModule } from '@angular/router';
+import { CanDirective } from '../../directives/can.directive';
 
 /**
  * Home page component
@@ -8,7 +9,7 @@ import { RouterModule } from '@angular/router';
 @Component({
   selector: 'app-home',
   standalone: true,
-  imports: [RouterModule],
+  imports: [RouterModule, CanDirective],
   templateUrl: './home.component.html',
   styleUrl: './home.component.css'
 })
@@ -1,18 +1,24 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
 import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
 import { ErrorDisplayComponent } from '../../components/shared/error-display/error-display.component';
 import { SearchPanelComponent, SearchField, SearchCriteria } from '../../components/shared/search-panel/search-panel.component';
 import { PaginationComponent } from '../../components/shared/pagination/pagination.component';
+import { DataTableComponent, DataTableColumn } from '../../components/shared/data-table/data-table.component';
+import { DataTableCellDirective } from '../../components/shared/data-table/data-table-cell.directive';
 import { UploadInventoryModalComponent } from '../../components/upload-inventory-modal/upload-inventory-modal.component';
 import { Product } from '../../models/product.model';
 import { InventoryResponse, InventoryUpdateForm, InventorySearchRequest } from '../../models/inventory.model';
+import { Page } from '../../models/api.model';
 import { ProductService } from '../../services/product.service';
 import { InventoryService } from '../../services/inventory.service';
 import { RoleService } from '../../services/role.service';
 import { ToastService } from '../../services/toast.service';
+import { CanDirective } from '../../directives/can.directive';
+import { ListQueryState, navigateToListQuery, readListQuery } from '../../utils/list-query.util';
 
 /**
  * Inventory Component for managing inventory
@@ -28,7 +34,10 @@ import { ToastService } from '../../services/toast.service';
     ErrorDisplayComponent,
     SearchPanelComponent,
     PaginationComponent,
-    UploadInventoryModalComponent
+    DataTableComponent,
+    DataTableCellDirective,
+    UploadInventoryModalComponent,
+    CanDirective
   ],
   templateUrl: './inventory.component.html',
   styleUrl: './inventory.component.css'
@@ -47,7 +56,13 @@ export class InventoryComponent implements OnInit, OnDestroy {
   currentPage = 1;
   pageSize = 10;
   totalItems = 0;
+  totalIsEstimated = false;
   currentSearchRequest: InventorySearchRequest = { productName: '', barcode: '' };
+  currentSort: string | null = null;
+  private readonly DEFAULT_PAGE_SIZE = 10;
+
+  // Search values restored from the URL
+  searchValues: SearchCriteria = {};
 
   // Search configuration
   searchFields: SearchField[] = [
@@ -65,6 +80,10 @@ export class InventoryComponent implements OnInit, OnDestroy {
     }
   ];
 
+  // Table columns; the actions column is only shown to users who can edit inventory
+  columns: DataTableColumn<InventoryResponse>[] = this.buildColumns(false);
+  isEditingRow = (item: InventoryResponse) => this.isEditing(item.id);
+
   // Component destruction subject for cleanup
   private destroy$ = new Subject<void>();
 
@@ -72,12 +91,66 @@ export class InventoryComponent implements OnInit, OnDestroy {
     private inventoryService: InventoryService,
     private productService: ProductService,
     public roleService: RoleService, // Made public for template access
-    private toastService: ToastService
+    private toastService: ToastService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit() {
+    this.roleService.canEdit('inventory')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canEdit => this.columns = this.buildColumns(canEdit));
+
     this.loadProducts();
-    this.loadInventory();
+
+    // Search, page, size and sort live in the URL so refresh, back/forward and shared links keep them
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const state = readListQuery(params, ['productName', 'barcode'], this.DEFAULT_PAGE_SIZE);
+        this.searchValues = state.criteria;
+        this.currentSearchRequest = {
+          productName: (state.criteria['productName'] as string | undefined) || '',
+          barcode: (state.criteria['barcode'] as string | undefined) || ''
+        };
+        this.currentPage = state.page;
+        this.pageSize = state.size;
+        this.currentSort = state.sort;
+        this.loadInventory();
+      });
+  }
+
+  /**
+   * Writes list state changes to the URL, which triggers the reload
+   * @param changes - Parts of the list state to change
+   */
+  private updateListQuery(changes: Partial<ListQueryState>): void {
+    const state: ListQueryState = {
+      criteria: { productName: this.currentSearchRequest.productName || '', barcode: this.currentSearchRequest.barcode || '' },
+      page: this.currentPage,
+      size: this.pageSize,
+      sort: this.currentSort,
+      ...changes
+    };
+    navigateToListQuery(this.router, this.route, state, this.DEFAULT_PAGE_SIZE, () => this.loadInventory());
+  }
+
+  /**
+   * Builds the inventory table columns
+   * Barcode and name come from the product lookup, so only quantity can be sorted by the server
+   * @param canEdit - Whether the current user can edit inventory
+   * @returns Column definitions
+   */
+  private buildColumns(canEdit: boolean): DataTableColumn<InventoryResponse>[] {
+    const columns: DataTableColumn<InventoryResponse>[] = [
+      { key: 'barcode', header: 'Barcode', accessor: item => this.getProductBarcode(item.productId), width: '25%' },
+      { key: 'productName', header: 'Product Name', accessor: item => this.getProductName(item.productId) },
+      { key: 'quantity', header: 'Quantity', sortable: true, editable: true, width: canEdit ? '17%' : '25%' }
+    ];
+    if (canEdit) {
+      columns.push({ key: 'actions', header: 'Actions', hideable: false, width: '25%' });
+    }
+    return columns;
   }
 
   ngOnDestroy() {
@@ -143,18 +216,14 @@ export class InventoryComponent implements OnInit, OnDestroy {
    */
   loadInventory() {
     const page = this.currentPage - 1; // Convert to 0-based for API
-    this.inventoryService.searchInventory(this.currentSearchRequest, page, this.pageSize)
+    this.inventoryService.searchInventory(this.currentSearchRequest, page, this.pageSize, this.currentSort)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (inventory: InventoryResponse[]) => {
-          this.inventory = inventory;
-          // Estimate total items for pagination
-          if (inventory.length < this.pageSize) {
-            this.totalItems = (this.currentPage - 1) * this.pageSize + inventory.length;
-          } else {
-            this.totalItems = this.currentPage * this.pageSize + 1;
-          }
-          this.toastService.showSuccess(`Loaded ${inventory.length} inventory records successfully`);
+        next: (result: Page<InventoryResponse>) => {
+          this.inventory = result.content;
+          this.totalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
+          this.toastService.showSuccess(`Loaded ${result.content.length} inventory records successfully`);
         },
         error: (error: any) => {
           // Extract the exact error message from backend
@@ -340,29 +409,18 @@ export class InventoryComponent implements OnInit, OnDestroy {
    * @param criteria - Search criteria from search panel
    */
   onSearch(criteria: SearchCriteria): void {
-    this.currentSearchRequest = {};
-    
-    // Map product name parameter for search
-    if (criteria['productName']) {
-      this.currentSearchRequest.productName = criteria['productName'] as string;
-    }
-    
-    // Map barcode parameter for search
-    if (criteria['barcode']) {
-      this.currentSearchRequest.barcode = criteria['barcode'] as string;
-    }
-    
-    this.currentPage = 1; // Reset to first page when searching
-    this.loadInventory();
+    // Only product name and barcode are searchable; reset to first page when searching
+    this.updateListQuery({
+      criteria: { productName: criteria['productName'] ?? '', barcode: criteria['barcode'] ?? '' },
+      page: 1
+    });
   }
 
   /**
    * Handles search clear
    */
   onClearSearch(): void {
-    this.currentSearchRequest = { productName: '', barcode: '' };
-    this.currentPage = 1;
-    this.loadInventory();
+    this.updateListQuery({ criteria: {}, page: 1 });
   }
 
   /**
@@ -370,15 +428,30 @@ export class InventoryComponent implements OnInit, OnDestroy {
    * @param page - New page number
    */
   onPageChange(page: number): void {
-    this.currentPage = page;
-    this.loadInventory();
+    this.updateListQuery({ page });
+  }
+
+  /**
+   * Handles page size changes from pagination component
+   * @param size - New page size
+   */
+  onPageSizeChange(size: number): void {
+    this.updateListQuery({ size, page: 1 });
+  }
+
+  /**
+   * Handles sort changes from the data table
+   * @param sort - New sort, or null for the default order
+   */
+  onSortChange(sort: string | null): void {
+    this.updateListQuery({ sort, page: 1 });
   }
 
   /**
    * Gets loading state from service
    */
   get loading$() {
-    return this.inventoryService.loading$;
+    return this.inventoryService.isLoading('search');
   }
 
   /**
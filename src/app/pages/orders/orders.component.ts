@@ -1,17 +1,30 @@
 import { CommonModule } from '@angular/common';
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil, debounceTime, distinctUntilChanged, switchMap, forkJoin, of } from 'rxjs';
+import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY, Observable, Subject, takeUntil, debounceTime, distinctUntilChanged, filter, forkJoin, from, mergeMap, map, catchError, finalize, toArray } from 'rxjs';
 import { AddOrderModalComponent } from '../../components/add-order-modal/add-order-modal.component';
 import { ViewOrderItemsModalComponent } from '../../components/view-order-items-modal/view-order-items-modal.component';
+import { PaymentModalComponent } from '../../components/payment-modal/payment-modal.component';
+import { VoidOrderModalComponent } from '../../components/void-order-modal/void-order-modal.component';
 import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
 import { ErrorDisplayComponent } from '../../components/shared/error-display/error-display.component';
 import { SearchPanelComponent, SearchField, SearchCriteria } from '../../components/shared/search-panel/search-panel.component';
 import { PaginationComponent } from '../../components/shared/pagination/pagination.component';
-import { OrderResponse, OrderItemForm, OrderItemWithProduct } from '../../models/order.model';
+import { DataTableComponent, DataTableColumn } from '../../components/shared/data-table/data-table.component';
+import { DataTableCellDirective } from '../../components/shared/data-table/data-table-cell.directive';
+import { OrderResponse, OrderRequest, OrderItemWithProduct, OrderStatus, InvoiceBatchProgress, InvoiceBatchFailure } from '../../models/order.model';
+import { Page } from '../../models/api.model';
+import { OrderPayment, PAYMENT_METHOD_LABELS } from '../../models/payment.model';
+import { ReturnRequest, ReturnResponse } from '../../models/return.model';
 import { OrderService } from '../../services/order.service';
+import { PaymentService } from '../../services/payment.service';
+import { ReturnService } from '../../services/return.service';
 import { RoleService } from '../../services/role.service';
 import { ToastService } from '../../services/toast.service';
+import { ListQueryState, navigateToListQuery, readListQuery } from '../../utils/list-query.util';
+import { TaxOptions, summarizeOrder, taxOptionsOf } from '../../utils/pricing.util';
+import { getReturnableQuantity, getReturnedQuantities } from '../../utils/return.util';
 
 /**
  * Orders Component for managing orders
@@ -25,19 +38,56 @@ import { ToastService } from '../../services/toast.service';
     FormsModule, 
     AddOrderModalComponent,
     ViewOrderItemsModalComponent,
+    PaymentModalComponent,
+    VoidOrderModalComponent,
     LoadingSpinnerComponent,
     ErrorDisplayComponent,
     SearchPanelComponent,
-    PaginationComponent
+    PaginationComponent,
+    DataTableComponent,
+    DataTableCellDirective
   ],
   templateUrl: './orders.component.html',
   styleUrl: './orders.component.css'
 })
 export class OrdersComponent implements OnInit, OnDestroy {
+  @ViewChild(DataTableComponent) dataTable?: DataTableComponent<OrderResponse>;
+  @ViewChild(ViewOrderItemsModalComponent) viewItemsModal?: ViewOrderItemsModalComponent;
+
   orders: OrderResponse[] = [];
   showAddModal = false;
   showViewItemsModal = false;
   selectedOrderItems: OrderItemWithProduct[] = [];
+  selectedOrderDiscount = 0;
+  selectedOrderTaxOptions: TaxOptions = { mode: 'INCLUSIVE', interState: false };
+  selectedOrderPayment: OrderPayment | null = null;
+  selectedOrderReturns: ReturnResponse[] = [];
+  returnsLoaded = false; // Returns can only be entered once earlier returns are known
+  selectedOrder: OrderResponse | null = null;
+  payments: { [key: number]: OrderPayment } = {};
+
+  // Payment step shown after an order is created or when an unpaid order is paid
+  showPaymentModal = false;
+  paymentOrderId: number | null = null;
+  paymentAmountDue = 0;
+
+  // Returns are only loaded and offered to roles allowed to see and create them
+  canViewReturns = false;
+  canCreateReturns = false;
+  submittingReturn = false;
+
+  // Voiding un-invoiced orders (supervisors)
+  readonly OrderStatus = OrderStatus;
+  canVoidOrders = false;
+  showVoidModal = false;
+  voidOrderId: number | null = null;
+  voidingOrder = false;
+
+  // Invoice actions on the selected orders
+  selectedOrders: OrderResponse[] = [];
+  invoiceBatch: InvoiceBatchProgress | null = null;
+  batchRunning = false;
+  private readonly BATCH_CONCURRENCY = 3; // Invoice requests in flight at once
   invoiceGenerated: { [key: number]: boolean } = {};
   generatingInvoice: { [key: number]: boolean } = {}; // Track invoice generation state
 
@@ -48,7 +98,13 @@ export class OrdersComponent implements OnInit, OnDestroy {
   currentPage = 1;
   pageSize = 10;
   totalItems = 0;
+  totalIsEstimated = false;
   currentSearchRequest: any = {};
+  currentSort: string | null = null;
+  private readonly DEFAULT_PAGE_SIZE = 10;
+
+  // Search values restored from the URL
+  searchValues: SearchCriteria = {};
 
   // Search configuration
   searchFields: SearchField[] = [
@@ -76,23 +132,98 @@ export class OrdersComponent implements OnInit, OnDestroy {
       label: 'Order ID',
       placeholder: 'Search by Order ID',
       type: 'text'
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      options: [
+        { value: OrderStatus.CREATED, label: 'Created' },
+        { value: OrderStatus.INVOICED, label: 'Invoiced' },
+        { value: OrderStatus.VOIDED, label: 'Voided' },
+        { value: OrderStatus.RETURNED, label: 'Returned' }
+      ]
     }
   ];
 
+  // Table columns; the total is computed from the items, so it is not sortable by the server
+  columns: DataTableColumn<OrderResponse>[] = [
+    { key: 'id', header: 'Order ID', formatter: id => `#${id}`, sortable: true, width: '15%' },
+    { key: 'time', header: 'Date', formatter: (_time, order) => this.formatDate(order.time), sortable: true, width: '30%' },
+    { key: 'total', header: 'Total Price', accessor: order => this.getTotalPrice(order), formatter: total => `₹${total}`, width: '15%' },
+    { key: 'status', header: 'Status', accessor: order => this.getStatus(order), width: '10%' },
+    { key: 'payment', header: 'Payment', accessor: order => this.getPaymentLabel(order), width: '15%' },
+    { key: 'actions', header: 'Actions', hideable: false }
+  ];
+
   // Component destruction subject for cleanup
   private destroy$ = new Subject<void>();
   private searchSubject = new Subject<SearchCriteria>(); // For debounced search
 
   constructor(
     private orderService: OrderService,
+    private paymentService: PaymentService,
+    private returnService: ReturnService,
     public roleService: RoleService, // Made public for template access
-    private toastService: ToastService
+    private toastService: ToastService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit() {
-    this.loadOrders();
     this.updateDateConstraints();
     this.setupDebouncedSearch();
+
+    this.roleService.can('returns:view')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canView => this.canViewReturns = canView);
+    this.roleService.can('returns:create')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canCreate => this.canCreateReturns = canCreate);
+    this.roleService.can('orders:void')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canVoid => this.canVoidOrders = canVoid);
+
+    // Search, page, size and sort live in the URL so refresh, back/forward and shared links keep them
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const state = readListQuery(params, ['startDate', 'endDate', 'orderId', 'status'], this.DEFAULT_PAGE_SIZE);
+        const today = new Date().toISOString().split('T')[0];
+
+        // Without dates in the URL the list shows today's orders
+        if (!state.criteria['startDate'] && !state.criteria['endDate']) {
+          state.criteria['startDate'] = today;
+          state.criteria['endDate'] = today;
+        }
+
+        this.searchValues = state.criteria;
+        this.currentSearchRequest = this.buildSearchRequest(state.criteria);
+        this.currentPage = state.page;
+        this.pageSize = state.size;
+        this.currentSort = state.sort;
+        this.loadOrders();
+      });
+  }
+
+  /**
+   * Writes list state changes to the URL, which triggers the reload
+   * @param changes - Parts of the list state to change
+   */
+  private updateListQuery(changes: Partial<ListQueryState>): void {
+    const state: ListQueryState = {
+      criteria: {
+        startDate: this.currentSearchRequest.startDate ?? '',
+        endDate: this.currentSearchRequest.endDate ?? '',
+        orderId: this.currentSearchRequest.orderId ?? '',
+        status: this.currentSearchRequest.status ?? ''
+      },
+      page: this.currentPage,
+      size: this.pageSize,
+      sort: this.currentSort,
+      ...changes
+    };
+    navigateToListQuery(this.router, this.route, state, this.DEFAULT_PAGE_SIZE, () => this.loadOrders());
   }
 
   /**
@@ -113,25 +244,19 @@ export class OrdersComponent implements OnInit, OnDestroy {
     this.searchSubject.pipe(
       debounceTime(300), // Wait 300ms after user stops typing
       distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr)),
-      switchMap((criteria: SearchCriteria) => {
-        // Validate date range before searching
-        if (!this.validateSearchDates(criteria)) {
-          return of([]); // Return empty array if validation fails
-        }
-
-        this.currentSearchRequest = this.buildSearchRequest(criteria);
-        this.currentPage = 1; // Reset to first page on new search
-        return this.orderService.searchOrders(this.currentSearchRequest, 0, this.pageSize);
-      }),
+      filter((criteria: SearchCriteria) => this.validateSearchDates(criteria)), // Skip the search if validation fails
       takeUntil(this.destroy$)
-    ).subscribe({
-      next: (orders: OrderResponse[]) => {
-        this.orders = orders;
-        this.checkInvoiceStatusForOrders(orders);
-      },
-      error: (error: any) => {
-        console.error('Search error:', error);
-      }
+    ).subscribe((criteria: SearchCriteria) => {
+      // Reset to first page on new search
+      this.updateListQuery({
+        criteria: {
+          startDate: criteria['startDate'] ?? '',
+          endDate: criteria['endDate'] ?? '',
+          orderId: criteria['orderId'] ?? '',
+          status: criteria['status'] ?? ''
+        },
+        page: 1
+      });
     });
   }
 
@@ -201,6 +326,9 @@ export class OrdersComponent implements OnInit, OnDestroy {
     if (criteria['orderId']) {
       request.orderId = parseInt(criteria['orderId'] as string);
     }
+    if (criteria['status']) {
+      request.status = criteria['status'];
+    }
     
     return request;
   }
@@ -215,6 +343,12 @@ export class OrdersComponent implements OnInit, OnDestroy {
    */
   loadOrders() {
     const page = this.currentPage - 1; // Convert to 0-based for API
+
+    // The table is rebuilt with nothing ticked, so batch actions must not keep the previous rows
+    this.selectedOrders = [];
+    if (!this.batchRunning) {
+      this.invoiceBatch = null;
+    }
     
     // Set default search criteria to today's date if no search request exists
     if (!this.currentSearchRequest || Object.keys(this.currentSearchRequest).length === 0) {
@@ -224,19 +358,16 @@ export class OrdersComponent implements OnInit, OnDestroy {
       };
     }
     
-    this.orderService.searchOrders(this.currentSearchRequest, page, this.pageSize)
+    this.orderService.searchOrders(this.currentSearchRequest, page, this.pageSize, this.currentSort)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (orders: OrderResponse[]) => {
-          this.orders = orders;
-          this.checkInvoiceStatusForOrders(orders);
-          // Estimate total items for pagination
-          if (orders.length < this.pageSize) {
-            this.totalItems = (this.currentPage - 1) * this.pageSize + orders.length;
-          } else {
-            this.totalItems = this.currentPage * this.pageSize + 1;
-          }
-          this.toastService.showSuccess(`Loaded ${orders.length} orders successfully`);
+        next: (result: Page<OrderResponse>) => {
+          this.orders = result.content;
+          this.checkInvoiceStatusForOrders(result.content);
+          this.loadPayments(result.content);
+          this.totalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
+          this.toastService.showSuccess(`Loaded ${result.content.length} orders successfully`);
         },
         error: (error: any) => {
           // Extract the exact error message from backend
@@ -251,7 +382,9 @@ export class OrdersComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Checks invoice status for multiple orders efficiently
+   * Works out which orders have invoices
+   * The order status answers this when the backend sends one; only orders without a status, and
+   * returned orders (which may or may not have been invoiced), are checked against the invoice API
    * @param orders - Array of orders to check
    */
   private checkInvoiceStatusForOrders(orders: OrderResponse[]) {
@@ -259,8 +392,16 @@ export class OrdersComponent implements OnInit, OnDestroy {
       return;
     }
 
+    const unknown = orders.filter(order => !order.status || order.status === OrderStatus.RETURNED);
+    orders.filter(order => !unknown.includes(order)).forEach(order => {
+      this.invoiceGenerated[order.id] = order.status === OrderStatus.INVOICED;
+    });
+    if (unknown.length === 0) {
+      return;
+    }
+
     // Create batch requests for invoice status checking
-    const invoiceChecks = orders.map(order => 
+    const invoiceChecks = unknown.map(order => 
       this.orderService.checkInvoiceExists(order.id).pipe(
         takeUntil(this.destroy$)
       )
@@ -269,27 +410,122 @@ export class OrdersComponent implements OnInit, OnDestroy {
     // Execute all checks in parallel
     forkJoin(invoiceChecks).subscribe({
       next: (results: boolean[]) => {
-        orders.forEach((order, index) => {
+        unknown.forEach((order, index) => {
           this.invoiceGenerated[order.id] = results[index];
         });
       },
       error: (error: any) => {
         console.error('Error checking invoice status:', error);
         // Set all to false on error to prevent UI issues
-        orders.forEach(order => {
+        unknown.forEach(order => {
           this.invoiceGenerated[order.id] = false;
         });
       }
     });
   }
 
+  /**
+   * Loads how the listed orders were paid
+   * @param orders - Orders shown in the list
+   */
+  private loadPayments(orders: OrderResponse[]) {
+    this.paymentService.getPayments(orders.map(order => order.id))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(payments => {
+        this.payments = { ...this.payments, ...payments };
+      });
+  }
+
+  /**
+   * Status of an order; backends that don't send one are covered by the invoice check
+   * @param order - The order
+   * @returns Order status
+   */
+  getStatus(order: OrderResponse): OrderStatus {
+    if (order.status && order.status !== OrderStatus.CREATED) {
+      return order.status;
+    }
+    return this.invoiceGenerated[order.id] ? OrderStatus.INVOICED : OrderStatus.CREATED;
+  }
+
+  /**
+   * Whether the current user may void an order; only orders without an invoice can be voided
+   * @param order - The order
+   */
+  canVoid(order: OrderResponse): boolean {
+    return this.canVoidOrders && this.getStatus(order) === OrderStatus.CREATED;
+  }
+
+  /**
+   * Opens the void dialog for an order
+   * @param order - The order to void
+   */
+  onVoidOrder(order: OrderResponse) {
+    this.voidOrderId = order.id;
+    this.showVoidModal = true;
+  }
+
+  /**
+   * Voids the order once a reason is given
+   * @param reason - Why the order is voided
+   */
+  onVoidConfirmed(reason: string) {
+    if (this.voidOrderId === null) {
+      return;
+    }
+
+    this.voidingOrder = true;
+    this.orderService.voidOrder(this.voidOrderId, reason)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (voided: OrderResponse) => {
+          this.voidingOrder = false;
+          this.showVoidModal = false;
+          this.replaceOrder({ ...voided, status: OrderStatus.VOIDED, voidReason: voided.voidReason ?? reason });
+          this.toastService.showSuccess(`Order #${voided.id} voided`);
+        },
+        error: (error: any) => {
+          this.voidingOrder = false;
+          // Extract the exact error message from backend
+          let errorMessage = 'Failed to void the order. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error voiding order:', error);
+        }
+      });
+  }
+
+  /**
+   * Swaps an order in the list for its updated version
+   * @param updated - Updated order
+   */
+  private replaceOrder(updated: OrderResponse) {
+    this.orders = this.orders.map(order => order.id === updated.id ? { ...order, ...updated } : order);
+  }
+
+  /**
+   * Describes how an order was paid, e.g. 'Cash + UPI'
+   * @param order - The order
+   * @returns Payment methods, or 'Unpaid'
+   */
+  getPaymentLabel(order: OrderResponse): string {
+    const payment = this.payments[order.id];
+    if (!payment) {
+      return 'Unpaid';
+    }
+    const methods = payment.tenders.map(tender => PAYMENT_METHOD_LABELS[tender.method]);
+    return methods.filter((method, index) => methods.indexOf(method) === index).join(' + ');
+  }
+
   /**
    * Calculates total price for an order
    * @param order - The order to calculate total for
    * @returns Total price
    */
   getTotalPrice(order: OrderResponse): number {
-    return order.orderItems.reduce((sum, item) => sum + (item.quantity * item.sellingPrice), 0);
+    return summarizeOrder(order.orderItems, order.discountAmount, taxOptionsOf(order)).total;
   }
 
   /**
@@ -298,8 +534,6 @@ export class OrdersComponent implements OnInit, OnDestroy {
    * @returns Formatted date string
    */
   formatDate(dateString: string): string {
-    console.log('Raw date string:', dateString); // Debug log
-    
     let date: Date;
     
     // Handle different date formats
@@ -339,8 +573,6 @@ export class OrdersComponent implements OnInit, OnDestroy {
       return 'Invalid Date';
     }
     
-    console.log('Parsed date:', date); // Debug log
-    
     return date.toLocaleDateString('en-IN', {
       year: 'numeric',
       month: 'short',
@@ -353,15 +585,16 @@ export class OrdersComponent implements OnInit, OnDestroy {
 
   /**
    * Handles order creation from modal
-   * @param orderItems - Array of order items
+   * @param orderRequest - Order items and order discount
    */
-  onOrderCreated(orderItems: OrderItemForm[]) {
-    this.orderService.createOrder(orderItems)
+  onOrderCreated(orderRequest: OrderRequest) {
+    this.orderService.createOrder(orderRequest)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (newOrder: OrderResponse) => {
           this.orders.unshift(newOrder);
           this.toastService.showSuccess('Order created successfully');
+          this.onTakePayment(newOrder);
         },
         error: (error: any) => {
           // Extract the exact error message from backend
@@ -376,18 +609,135 @@ export class OrdersComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Opens the payment step for an order
+   * @param order - The order to take payment for
+   */
+  onTakePayment(order: OrderResponse) {
+    this.paymentOrderId = order.id;
+    this.paymentAmountDue = this.getTotalPrice(order);
+    this.showPaymentModal = true;
+  }
+
+  /**
+   * Handles a payment recorded in the payment modal
+   * @param payment - Recorded payment
+   */
+  onPaymentRecorded(payment: OrderPayment) {
+    this.payments = { ...this.payments, [payment.orderId]: payment };
+    const change = payment.change > 0 ? ` Change: ₹${payment.change.toFixed(2)}` : '';
+    this.toastService.showSuccess(`Payment recorded for order #${payment.orderId}.${change}`);
+  }
+
   /**
    * Handles viewing order items
    * @param order - The order to view items for
    */
   onViewItems(order: OrderResponse) {
+    this.selectedOrder = order;
     // Convert order items to include product information
     this.selectedOrderItems = order.orderItems.map(item => ({
       ...item,
       productName: '', // Will be populated by the modal component
       barcode: '' // Will be populated by the modal component
     }));
+    this.selectedOrderDiscount = order.discountAmount ?? 0;
+    this.selectedOrderTaxOptions = taxOptionsOf(order);
+    this.selectedOrderPayment = this.payments[order.id] ?? null;
+    this.selectedOrderReturns = [];
+    this.returnsLoaded = false;
     this.showViewItemsModal = true;
+    this.loadReturns(order.id);
+  }
+
+  /**
+   * Loads the returns made against the order being viewed
+   * @param orderId - Order ID
+   */
+  private loadReturns(orderId: number) {
+    if (!this.canViewReturns) {
+      return;
+    }
+
+    this.returnService.getReturnsForOrder(orderId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (returns: ReturnResponse[]) => {
+          // Ignore a late response for an order that is no longer shown
+          if (this.selectedOrderItems[0]?.orderId === orderId) {
+            this.selectedOrderReturns = returns;
+            this.returnsLoaded = true;
+          }
+        },
+        error: (error: any) => {
+          // Extract the exact error message from backend
+          let errorMessage = 'Failed to load earlier returns, so items cannot be returned right now.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error loading returns:', error);
+        }
+      });
+  }
+
+  /**
+   * Handles a return submitted from the order items modal
+   * The backend restocks the items and issues the credit note
+   * @param returnRequest - Items, quantities and reason
+   */
+  onReturnSubmitted(returnRequest: ReturnRequest) {
+    this.submittingReturn = true;
+    this.returnService.createReturn(returnRequest)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (created: ReturnResponse) => {
+          this.submittingReturn = false;
+          this.selectedOrderReturns = [...this.selectedOrderReturns, created];
+          this.viewItemsModal?.cancelReturn();
+          // The order only counts as returned once nothing is left to return
+          const returned = getReturnedQuantities(this.selectedOrderReturns);
+          const fullyReturned = this.selectedOrderItems.every(item => getReturnableQuantity(item, returned) === 0);
+          const order = this.orders.find(o => o.id === created.orderId);
+          if (order && fullyReturned) {
+            this.replaceOrder({ ...order, status: OrderStatus.RETURNED });
+          }
+          this.toastService.showSuccess(`Credit note ${created.creditNoteNumber} issued for ₹${created.amount.toFixed(2)}`);
+        },
+        error: (error: any) => {
+          this.submittingReturn = false;
+          // Extract the exact error message from backend
+          let errorMessage = 'Failed to return the items. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error creating return:', error);
+        }
+      });
+  }
+
+  /**
+   * Handles credit note download
+   * @param returnId - Return to download the credit note for
+   */
+  onDownloadCreditNote(returnId: number) {
+    this.returnService.downloadCreditNote(returnId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.toastService.showSuccess('Credit note downloaded successfully');
+        },
+        error: (error: any) => {
+          // Extract the exact error message from backend
+          let errorMessage = 'Failed to download the credit note. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error downloading credit note:', error);
+        }
+      });
   }
 
   /**
@@ -408,6 +758,9 @@ export class OrdersComponent implements OnInit, OnDestroy {
         next: (response: string) => {
           // Update invoice status immediately after generation
           this.invoiceGenerated[order.id] = true;
+          if (!order.status || order.status === OrderStatus.CREATED) {
+            this.replaceOrder({ ...order, status: OrderStatus.INVOICED });
+          }
           this.generatingInvoice[order.id] = false;
           
           // Show success message with the response from backend
@@ -427,6 +780,130 @@ export class OrdersComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Keeps track of the orders ticked in the table
+   * @param orders - Selected orders
+   */
+  onSelectionChange(orders: OrderResponse[]) {
+    this.selectedOrders = orders;
+  }
+
+  /**
+   * Generates invoices for the selected orders that don't have one yet
+   */
+  onGenerateSelectedInvoices() {
+    const targets = this.selectedOrders.filter(order =>
+      !this.invoiceGenerated[order.id] && this.getStatus(order) !== OrderStatus.VOIDED
+    );
+    if (targets.length === 0) {
+      this.toastService.showInfo('The selected orders already have invoices or are voided');
+      return;
+    }
+
+    this.runInvoiceBatch('generate', targets, order =>
+      this.orderService.generateInvoice(order.id).pipe(
+        map(response => {
+          this.invoiceGenerated[order.id] = true;
+          const current = this.orders.find(o => o.id === order.id) ?? order;
+          if (!current.status || current.status === OrderStatus.CREATED) {
+            this.replaceOrder({ ...current, status: OrderStatus.INVOICED });
+          }
+          return response;
+        })
+      ),
+      results => this.reportBatchResult(`Generated ${results.length} of ${targets.length} invoices`)
+    );
+  }
+
+  /**
+   * Downloads the invoices of the selected orders as one ZIP file
+   * Orders without an invoice are reported as failures
+   */
+  onDownloadSelectedInvoices() {
+    const targets = this.selectedOrders.filter(order => this.invoiceGenerated[order.id]);
+    const skipped: InvoiceBatchFailure[] = this.selectedOrders
+      .filter(order => !this.invoiceGenerated[order.id])
+      .map(order => ({ orderId: order.id, message: 'No invoice generated yet' }));
+    if (targets.length === 0) {
+      this.toastService.showError('None of the selected orders has an invoice yet. Generate the invoices first.');
+      return;
+    }
+
+    const total = this.selectedOrders.length;
+    const filename = `invoices_${new Date().toISOString().split('T')[0]}.zip`;
+    this.runInvoiceBatch('download', targets, order => this.orderService.fetchInvoice(order.id), results => {
+      if (results.length === 0) {
+        this.toastService.showError('None of the selected invoices could be fetched, so no ZIP file was saved');
+        return;
+      }
+      this.orderService.downloadInvoicesAsZip(results.map(({ order, result }) => ({ orderId: order.id, blob: result })), filename)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: () => this.reportBatchResult(`Downloaded ${results.length} of ${total} invoices as ${filename}`),
+          error: (error: any) => {
+            this.toastService.showError('Failed to build the ZIP file. Please try again.');
+            console.error('Error building invoice ZIP:', error);
+          }
+        });
+    }, skipped);
+  }
+
+  /**
+   * Clears the table selection and the last batch result
+   */
+  clearSelection() {
+    this.dataTable?.clearSelection();
+    this.invoiceBatch = null;
+  }
+
+  /**
+   * Runs an invoice request per order, a few at a time, recording progress and per-order failures
+   * @param action - Batch action shown in the progress bar
+   * @param orders - Orders to run the request for
+   * @param task - Request for one order
+   * @param complete - Called with the successful results once every order is done
+   * @param skipped - Orders left out up front, reported as failures
+   */
+  private runInvoiceBatch<R>(
+    action: InvoiceBatchProgress['action'],
+    orders: OrderResponse[],
+    task: (order: OrderResponse) => Observable<R>,
+    complete: (results: { order: OrderResponse; result: R }[]) => void,
+    skipped: InvoiceBatchFailure[] = []
+  ) {
+    const batch: InvoiceBatchProgress = { action, total: orders.length + skipped.length, done: skipped.length, failures: [...skipped] };
+    this.invoiceBatch = batch;
+    this.batchRunning = true;
+
+    from(orders).pipe(
+      mergeMap(order => task(order).pipe(
+        map(result => ({ order, result })),
+        catchError((error: any) => {
+          batch.failures.push({ orderId: order.id, message: error?.message || 'Request failed' });
+          return EMPTY;
+        }),
+        finalize(() => batch.done++)
+      ), this.BATCH_CONCURRENCY),
+      toArray(),
+      finalize(() => this.batchRunning = false),
+      takeUntil(this.destroy$)
+    ).subscribe(results => complete(results));
+  }
+
+  /**
+   * Reports how a batch went; a fully successful batch also clears the selection
+   * @param summary - What was done, e.g. 'Generated 4 of 5 invoices'
+   */
+  private reportBatchResult(summary: string) {
+    const failures = this.invoiceBatch?.failures.length ?? 0;
+    if (failures > 0) {
+      this.toastService.showWarning(`${summary}. ${failures} failed; see the list above the table.`);
+      return;
+    }
+    this.toastService.showSuccess(summary);
+    this.clearSelection();
+  }
+
   /**
    * Handles invoice download
    * @param order - The order to download invoice for
@@ -483,12 +960,8 @@ export class OrdersComponent implements OnInit, OnDestroy {
    * Handles search clear
    */
   onClearSearch(): void {
-    this.currentSearchRequest = {
-      startDate: new Date().toISOString().split('T')[0],
-      endDate: new Date().toISOString().split('T')[0]
-    };
-    this.currentPage = 1;
-    this.loadOrders();
+    // No dates in the URL means today's orders
+    this.updateListQuery({ criteria: {}, page: 1 });
   }
 
   /**
@@ -496,8 +969,23 @@ export class OrdersComponent implements OnInit, OnDestroy {
    * @param page - New page number
    */
   onPageChange(page: number): void {
-    this.currentPage = page;
-    this.loadOrders();
+    this.updateListQuery({ page });
+  }
+
+  /**
+   * Handles page size changes from pagination component
+   * @param size - New page size
+   */
+  onPageSizeChange(size: number): void {
+    this.updateListQuery({ size, page: 1 });
+  }
+
+  /**
+   * Handles sort changes from the data table
+   * @param sort - New sort, or null for the default order
+   */
+  onSortChange(sort: string | null): void {
+    this.updateListQuery({ sort, page: 1 });
   }
 
   /**
@@ -512,7 +1000,7 @@ export class OrdersComponent implements OnInit, OnDestroy {
    * Gets loading state from service
    */
   get loading$() {
-    return this.orderService.loading$;
+    return this.orderService.isLoading('search');
   }
 
   /**
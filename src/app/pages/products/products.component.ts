@@ -1,18 +1,25 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil, Observable } from 'rxjs';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, takeUntil, Observable, map } from 'rxjs';
 import { ProductService } from '../../services/product.service';
 import { ClientService } from '../../services/client.service';
 import { RoleService } from '../../services/role.service';
 import { Product, ProductSearchRequest, ProductUpdateRequest } from '../../models/product.model';
 import { Client } from '../../models/client.model';
+import { Page } from '../../models/api.model';
 import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
 import { ErrorDisplayComponent } from '../../components/shared/error-display/error-display.component';
-import { SearchPanelComponent, SearchField } from '../../components/shared/search-panel/search-panel.component';
+import { SearchPanelComponent, SearchField, SearchCriteria } from '../../components/shared/search-panel/search-panel.component';
 import { PaginationComponent } from '../../components/shared/pagination/pagination.component';
+import { DataTableComponent, DataTableColumn } from '../../components/shared/data-table/data-table.component';
+import { DataTableCellDirective } from '../../components/shared/data-table/data-table-cell.directive';
 import { AddProductModalComponent } from '../../components/add-product-modal/add-product-modal.component';
 import { ToastService } from '../../services/toast.service';
+import { CanDirective } from '../../directives/can.directive';
+import { ListQueryState, navigateToListQuery, readListQuery } from '../../utils/list-query.util';
+import { GST_RATES, isValidHsnCode } from '../../utils/pricing.util';
 
 /**
  * Products management component
@@ -28,7 +35,10 @@ import { ToastService } from '../../services/toast.service';
     ErrorDisplayComponent,
     SearchPanelComponent,
     PaginationComponent,
-    AddProductModalComponent
+    DataTableComponent,
+    DataTableCellDirective,
+    AddProductModalComponent,
+    CanDirective
   ],
   templateUrl: './products.component.html',
   styleUrls: ['./products.component.css']
@@ -50,20 +60,47 @@ export class ProductsComponent implements OnInit, OnDestroy {
   currentPage = 1;
   pageSize = 10;
   totalItems = 0;
+  totalIsEstimated = false;
+  private serverTotalItems = 0; // Total reported by the backend for the unfiltered search
   currentSearchRequest: ProductSearchRequest = { barcode: '', productName: '', clientId: undefined };
+  currentSort: string | null = null;
+  private readonly DEFAULT_PAGE_SIZE = 10;
+
+  // Search values restored from the URL
+  searchValues: SearchCriteria = {};
   
   // Search functionality - using compatible SearchField interface
   searchFields: SearchField[] = [
     { key: 'barcode', label: 'Barcode', type: 'text', placeholder: 'Search by Barcode' },
-    { key: 'productName', label: 'Product Name', type: 'text', placeholder: 'Search by Product Name' }
+    { key: 'productName', label: 'Product Name', type: 'text', placeholder: 'Search by Product Name' },
+    {
+      key: 'clientId',
+      label: 'Client',
+      type: 'typeahead',
+      placeholder: 'Type a client name',
+      lookup: name => this.clientService.searchClientsByName(name, 0, 10).pipe(
+        map(result => result.content.map(client => ({ value: client.clientId.toString(), label: client.name })))
+      ),
+      resolveOption: clientId => this.clientService.get(Number(clientId)).pipe(
+        map(client => ({ value: client.clientId.toString(), label: client.name }))
+      )
+    }
   ];
   
+  // Table columns; the actions column is only shown to users who can edit products
+  columns: DataTableColumn<Product>[] = this.buildColumns(false);
+  isEditingRow = (product: Product) => this.isEditing(product.id);
+
   // Inline editing state
   editingProductId: number | null = null;
   editingName: { [key: number]: string } = {};
   editingMrp: { [key: number]: number } = {};
   editingNameErrors: { [key: number]: string } = {};
   editingMrpErrors: { [key: number]: string } = {};
+  editingTaxRate: { [key: number]: number } = {};
+  editingHsnCode: { [key: number]: string } = {};
+  editingHsnErrors: { [key: number]: string } = {};
+  readonly gstRates = GST_RATES;
   
   // Component cleanup
   private destroy$ = new Subject<void>();
@@ -76,17 +113,72 @@ export class ProductsComponent implements OnInit, OnDestroy {
     private productService: ProductService,
     private clientService: ClientService,
     public roleService: RoleService, // Made public for template access
-    private toastService: ToastService
+    private toastService: ToastService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {
     // Initialize observables in constructor
-    this.loading$ = this.productService.loading$;
+    this.loading$ = this.productService.isLoading('search');
     this.error$ = this.productService.error$;
   }
 
   ngOnInit(): void {
+    this.roleService.canEdit('products')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(canEdit => this.columns = this.buildColumns(canEdit));
+
     this.loadInitialData();
   }
 
+  /**
+   * Builds the product table columns
+   * @param canEdit - Whether the current user can edit products
+   * @returns Column definitions
+   */
+  private buildColumns(canEdit: boolean): DataTableColumn<Product>[] {
+    const columns: DataTableColumn<Product>[] = [
+      { key: 'barcode', header: 'Barcode', sortable: true, width: '18%' },
+      { key: 'clientName', header: 'Client', accessor: product => this.getClientName(product.clientId), sortable: true, sortField: 'clientId', width: '18%' },
+      { key: 'name', header: 'Name', sortable: true, editable: true },
+      { key: 'mrp', header: 'MRP', formatter: mrp => `₹${mrp}`, sortable: true, editable: true, width: canEdit ? '12%' : '15%' },
+      { key: 'tax', header: 'GST', accessor: product => product.taxRate ?? 0, formatter: rate => `${rate}%`, editable: true, width: '12%' }
+    ];
+    if (canEdit) {
+      columns.push({ key: 'actions', header: 'Actions', hideable: false, width: '22%' });
+    }
+    return columns;
+  }
+
+  /**
+   * Writes list state changes to the URL, which triggers the reload
+   * @param changes - Parts of the list state to change
+   */
+  private updateListQuery(changes: Partial<ListQueryState>): void {
+    const state: ListQueryState = {
+      criteria: {
+        barcode: this.currentSearchRequest.barcode || '',
+        productName: this.currentSearchRequest.productName || '',
+        clientId: this.selectedClientId ?? ''
+      },
+      page: this.currentPage,
+      size: this.pageSize,
+      sort: this.currentSort,
+      ...changes
+    };
+    navigateToListQuery(this.router, this.route, state, this.DEFAULT_PAGE_SIZE, () => this.reloadProducts());
+  }
+
+  /**
+   * Reloads the current page, filtered by client on the frontend when a client is selected
+   */
+  private reloadProducts(): void {
+    if (this.selectedClientId !== null) {
+      this.applyFrontendPagination();
+    } else {
+      this.loadProducts();
+    }
+  }
+
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
@@ -125,8 +217,25 @@ export class ProductsComponent implements OnInit, OnDestroy {
         }
       });
 
-    // Load products
-    this.loadProducts();
+    // Search, client filter, page, size and sort live in the URL so refresh, back/forward and shared links keep them
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const state = readListQuery(params, ['barcode', 'productName', 'clientId'], this.DEFAULT_PAGE_SIZE);
+        const clientId = Number(state.criteria['clientId']);
+
+        this.searchValues = state.criteria;
+        this.currentSearchRequest = {
+          barcode: (state.criteria['barcode'] as string | undefined) || '',
+          productName: (state.criteria['productName'] as string | undefined) || '',
+          clientId: undefined // Don't send clientId to backend
+        };
+        this.selectedClientId = Number.isInteger(clientId) && clientId > 0 ? clientId : null;
+        this.currentPage = state.page;
+        this.pageSize = state.size;
+        this.currentSort = state.sort;
+        this.reloadProducts();
+      });
   }
 
   /**
@@ -134,14 +243,14 @@ export class ProductsComponent implements OnInit, OnDestroy {
    */
   private loadProducts(): void {
     const page = this.currentPage - 1; // Convert to 0-based for API
-    this.productService.searchProducts(this.currentSearchRequest, page, this.pageSize)
+    this.productService.searchProducts(this.currentSearchRequest, page, this.pageSize, this.currentSort)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (products) => {
-          this.allProducts = products; // Store all products
+        next: (result: Page<Product>) => {
+          this.allProducts = result.content; // Store all products
+          this.serverTotalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
           this.applyClientFilter(); // Apply client filter to the loaded products
-          // Update total items based on filtered products
-          this.updateTotalItems();
         },
         error: (error) => {
           // Extract the exact error message from backend
@@ -160,30 +269,22 @@ export class ProductsComponent implements OnInit, OnDestroy {
    * @param searchData - Search criteria from search panel
    */
   onSearch(searchData: any): void {
-    this.currentSearchRequest = {
-      barcode: searchData.barcode || '',
-      productName: searchData.productName || '',
-      clientId: undefined // Don't send clientId to backend
-    };
-    this.currentPage = 1; // Reset to first page when searching
-    this.loadProducts();
+    // Reset to first page when searching
+    this.updateListQuery({
+      criteria: {
+        barcode: searchData.barcode || '',
+        productName: searchData.productName || '',
+        clientId: searchData.clientId || ''
+      },
+      page: 1
+    });
   }
 
   /**
    * Handle clear search
    */
   onClearSearch(): void {
-    this.selectedClientId = null;
-    this.currentSearchRequest = { barcode: '', productName: '', clientId: undefined };
-    this.currentPage = 1;
-    this.loadProducts();
-  }
-
-  /**
-   * Handle client filter change
-   */
-  onClientFilterChange(): void {
-    this.applyClientFilter();
+    this.updateListQuery({ criteria: {}, page: 1 });
   }
 
   /**
@@ -205,14 +306,6 @@ export class ProductsComponent implements OnInit, OnDestroy {
     }
   }
 
-  /**
-   * Clear client filter
-   */
-  clearClientFilter(): void {
-    this.selectedClientId = null;
-    this.applyClientFilter();
-  }
-
   /**
    * Load all products for client filtering (when client is selected)
    */
@@ -224,6 +317,7 @@ export class ProductsComponent implements OnInit, OnDestroy {
           // Filter all products by selected client
           this.products = allProducts.filter(product => product.clientId === this.selectedClientId);
           this.totalItems = this.products.length;
+          this.totalIsEstimated = false;
           this.currentPage = 1; // Reset to first page
         },
         error: (error) => {
@@ -238,16 +332,10 @@ export class ProductsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Update total items for pagination based on filtered products
+   * Update total items for pagination from the backend's count for the current search
    */
   private updateTotalItems(): void {
-    // For frontend filtering, we need to get the total count from backend
-    // Since we're only loading one page at a time, we'll estimate based on current results
-    if (this.products.length < this.pageSize) {
-      this.totalItems = (this.currentPage - 1) * this.pageSize + this.products.length;
-    } else {
-      this.totalItems = this.currentPage * this.pageSize + 1;
-    }
+    this.totalItems = this.serverTotalItems;
   }
 
   /**
@@ -293,7 +381,7 @@ export class ProductsComponent implements OnInit, OnDestroy {
    * Handle products uploaded from modal
    */
   onProductsUploaded(): void {
-    this.loadProducts(); // Reload all products to show uploaded ones
+    this.reloadProducts(); // Reload products to show uploaded ones
     this.showModal = false;
   }
 
@@ -312,7 +400,7 @@ export class ProductsComponent implements OnInit, OnDestroy {
    */
   retryLoadProducts(): void {
     this.productService.clearErrorState();
-    this.loadProducts();
+    this.reloadProducts();
   }
 
   /**
@@ -320,14 +408,24 @@ export class ProductsComponent implements OnInit, OnDestroy {
    * @param page - New page number
    */
   onPageChange(page: number): void {
-    this.currentPage = page;
-    // If client filter is applied, we need to handle pagination differently
-    if (this.selectedClientId !== null) {
-      // For client filtering, we have all products loaded, so we need to implement frontend pagination
-      this.applyFrontendPagination();
-    } else {
-      this.loadProducts();
-    }
+    // With a client filter the page is cut on the frontend (see reloadProducts)
+    this.updateListQuery({ page });
+  }
+
+  /**
+   * Handle page size changes from pagination component
+   * @param size - New page size
+   */
+  onPageSizeChange(size: number): void {
+    this.updateListQuery({ size, page: 1 });
+  }
+
+  /**
+   * Handles sort changes from the data table
+   * @param sort - New sort, or null for the default order
+   */
+  onSortChange(sort: string | null): void {
+    this.updateListQuery({ sort, page: 1 });
   }
 
   /**
@@ -344,6 +442,7 @@ export class ProductsComponent implements OnInit, OnDestroy {
         next: (allProducts) => {
           const filteredProducts = allProducts.filter(product => product.clientId === this.selectedClientId);
           this.totalItems = filteredProducts.length;
+          this.totalIsEstimated = false;
           this.products = filteredProducts.slice(startIndex, endIndex);
         },
         error: (error) => {
@@ -375,8 +474,11 @@ export class ProductsComponent implements OnInit, OnDestroy {
     this.editingProductId = product.id;
     this.editingName[product.id] = product.name;
     this.editingMrp[product.id] = product.mrp;
+    this.editingTaxRate[product.id] = product.taxRate ?? 0;
+    this.editingHsnCode[product.id] = product.hsnCode ?? '';
     this.editingNameErrors[product.id] = '';
     this.editingMrpErrors[product.id] = '';
+    this.editingHsnErrors[product.id] = '';
   }
 
   /**
@@ -387,8 +489,11 @@ export class ProductsComponent implements OnInit, OnDestroy {
     this.editingProductId = null;
     delete this.editingName[productId];
     delete this.editingMrp[productId];
+    delete this.editingTaxRate[productId];
+    delete this.editingHsnCode[productId];
     delete this.editingNameErrors[productId];
     delete this.editingMrpErrors[productId];
+    delete this.editingHsnErrors[productId];
   }
 
   /**
@@ -403,7 +508,9 @@ export class ProductsComponent implements OnInit, OnDestroy {
     const updateRequest: ProductUpdateRequest = {
       name: this.editingName[product.id],
       mrp: this.editingMrp[product.id],
-      imageUrl: product.imageUrl
+      imageUrl: product.imageUrl,
+      hsnCode: this.editingHsnCode[product.id].trim() || undefined,
+      taxRate: Number(this.editingTaxRate[product.id])
     };
 
     this.productService.updateProduct(product.id, updateRequest)
@@ -462,6 +569,10 @@ export class ProductsComponent implements OnInit, OnDestroy {
     } else {
       this.editingMrpErrors[productId] = '';
     }
+
+    // Validate HSN code (optional)
+    const hsnCode = this.editingHsnCode[productId] ?? '';
+    this.editingHsnErrors[productId] = hsnCode.trim() && !isValidHsnCode(hsnCode) ? 'HSN code must be 4 to 8 digits' : '';
   }
 
   /**
@@ -471,7 +582,7 @@ export class ProductsComponent implements OnInit, OnDestroy {
    */
   isValidEdit(productId: number): boolean {
     this.validateEditingData(productId);
-    return !this.editingNameErrors[productId] && !this.editingMrpErrors[productId];
+    return !this.editingNameErrors[productId] && !this.editingMrpErrors[productId] && !this.editingHsnErrors[productId];
   }
 
   /**
@@ -351,7 +351,7 @@ export class ReportsComponent implements OnInit, OnDestroy {
 
   // Observable streams from service
   get loading$() {
-    return this.reportService.loading$;
+    return this.reportService.isLoading('day-sales');
   }
   
   get error$() {
@@ -0,0 +1,246 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Observable, Subject, takeUntil } from 'rxjs';
+import { LoadingSpinnerComponent } from '../../components/shared/loading-spinner/loading-spinner.component';
+import { SearchPanelComponent, SearchField, SearchCriteria } from '../../components/shared/search-panel/search-panel.component';
+import { PaginationComponent } from '../../components/shared/pagination/pagination.component';
+import { Role, UserResponse } from '../../models/auth.model';
+import { Page } from '../../models/api.model';
+import { AuthService } from '../../services/auth.service';
+import { UserService } from '../../services/user.service';
+import { ToastService } from '../../services/toast.service';
+
+/**
+ * Users Component for supervisors to manage accounts
+ * Lists users with search and pagination; changes roles, deactivates/reactivates
+ * accounts and forces password resets
+ */
+@Component({
+  selector: 'app-users',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    LoadingSpinnerComponent,
+    SearchPanelComponent,
+    PaginationComponent
+  ],
+  templateUrl: './users.component.html',
+  styleUrl: './users.component.css'
+})
+export class UsersComponent implements OnInit, OnDestroy {
+  users: UserResponse[] = [];
+  roles: Role[] = Object.values(Role);
+
+  // Rows with a request in flight, keyed by user ID
+  pendingUsers: { [key: number]: boolean } = {};
+
+  // Pagination properties
+  currentPage = 1;
+  pageSize = 10;
+  totalItems = 0;
+  totalIsEstimated = false;
+  currentSearchTerm = '';
+
+  // Search configuration for name/email search
+  searchFields: SearchField[] = [
+    {
+      key: 'query',
+      label: 'Name or Email',
+      placeholder: 'Search by Name or Email',
+      type: 'text'
+    }
+  ];
+
+  // Component destruction subject for cleanup
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userService: UserService,
+    private authService: AuthService,
+    private toastService: ToastService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadUsers();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Loads the current page of users, applying the search term if present
+   */
+  loadUsers(): void {
+    const page = this.currentPage - 1; // Convert to 0-based for API
+    const request$: Observable<Page<UserResponse>> = this.currentSearchTerm
+      ? this.userService.searchUsers(this.currentSearchTerm, page, this.pageSize)
+      : this.userService.getUsers(page, this.pageSize);
+
+    request$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result: Page<UserResponse>) => {
+          this.users = result.content;
+          this.totalItems = result.totalElements;
+          this.totalIsEstimated = !!result.estimated;
+        },
+        error: (error: any) => {
+          let errorMessage = 'Failed to load users. Please try again.';
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error loading users:', error);
+        }
+      });
+  }
+
+  /**
+   * Checks whether a row is the signed-in supervisor (who can't demote or deactivate themselves)
+   * @param user - Row to check
+   * @returns boolean
+   */
+  isCurrentUser(user: UserResponse): boolean {
+    return this.authService.currentUser?.id === user.id;
+  }
+
+  /**
+   * Checks whether a user account is active (missing flag means active)
+   * @param user - Row to check
+   * @returns boolean
+   */
+  isActive(user: UserResponse): boolean {
+    return user.active !== false;
+  }
+
+  /**
+   * Changes a user's role
+   * @param user - User to update
+   * @param role - Newly selected role
+   */
+  onRoleChange(user: UserResponse, role: Role): void {
+    if (role === user.role) {
+      return;
+    }
+
+    this.runRowAction(user, this.userService.updateUserRole(user.id, role),
+      `${user.name} is now ${role.toLowerCase()}`, 'Failed to change role. Please try again.');
+  }
+
+  /**
+   * Deactivates or reactivates a user
+   * @param user - User to toggle
+   */
+  onToggleActive(user: UserResponse): void {
+    if (this.isActive(user)) {
+      if (!confirm(`Deactivate ${user.name}? They will no longer be able to sign in.`)) {
+        return;
+      }
+      this.runRowAction(user, this.userService.deactivateUser(user.id),
+        `${user.name} has been deactivated`, 'Failed to deactivate user. Please try again.');
+    } else {
+      this.runRowAction(user, this.userService.reactivateUser(user.id),
+        `${user.name} has been reactivated`, 'Failed to reactivate user. Please try again.');
+    }
+  }
+
+  /**
+   * Forces a user to choose a new password at their next sign in
+   * @param user - User whose password must be reset
+   */
+  onForcePasswordReset(user: UserResponse): void {
+    if (!confirm(`Force ${user.name} to reset their password at next sign in?`)) {
+      return;
+    }
+
+    this.runRowAction(user, this.userService.forcePasswordReset(user.id),
+      `${user.name} must set a new password at next sign in`, 'Failed to force password reset. Please try again.');
+  }
+
+  /**
+   * Handles search criteria from the search panel
+   * @param criteria - Search criteria containing the search parameters
+   */
+  onSearch(criteria: SearchCriteria): void {
+    const query = criteria['query'] as string;
+    if (query && query.trim()) {
+      this.currentSearchTerm = query.trim();
+      this.currentPage = 1; // Reset to first page when searching
+      this.loadUsers();
+    }
+  }
+
+  /**
+   * Handles clear search from the search panel
+   */
+  onClearSearch(): void {
+    this.currentSearchTerm = '';
+    this.currentPage = 1;
+    this.loadUsers();
+  }
+
+  /**
+   * Handles page change events from pagination component
+   * @param page - New page number
+   */
+  onPageChange(page: number): void {
+    this.currentPage = page;
+    this.loadUsers();
+  }
+
+  /**
+   * Handles page size changes from pagination component
+   * @param size - New page size
+   */
+  onPageSizeChange(size: number): void {
+    this.pageSize = size;
+    this.onPageChange(1);
+  }
+
+  /**
+   * Runs a row update, replacing the row with the server's response
+   * @param user - Row being updated
+   * @param request$ - Update request
+   * @param successMessage - Toast shown on success
+   * @param fallbackError - Toast shown if the error has no message
+   */
+  private runRowAction(user: UserResponse, request$: Observable<UserResponse>, successMessage: string, fallbackError: string): void {
+    this.pendingUsers[user.id] = true;
+
+    request$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (updatedUser: UserResponse) => {
+          const index = this.users.findIndex(u => u.id === user.id);
+          if (index !== -1) {
+            this.users[index] = updatedUser;
+          }
+          this.pendingUsers[user.id] = false;
+          this.toastService.showSuccess(successMessage);
+        },
+        error: (error: any) => {
+          let errorMessage = fallbackError;
+          if (error && error.message) {
+            errorMessage = error.message;
+          }
+          this.pendingUsers[user.id] = false;
+          // Replace the row with a new object so a rejected role change snaps back
+          const index = this.users.findIndex(u => u.id === user.id);
+          if (index !== -1) {
+            this.users[index] = { ...user };
+          }
+          this.toastService.showError(errorMessage);
+          console.error('Error updating user:', error);
+        }
+      });
+  }
+
+  // Observable streams from service
+  get loading$() {
+    return this.userService.isLoading('search');
+  }
+}
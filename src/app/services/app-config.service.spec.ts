@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { AppConfigService } from './app-config.service';
+
+describe('AppConfigService', () => {
+  let service: AppConfigService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(AppConfigService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should resolve endpoints against the loaded base URL and overrides', async () => {
+    const loaded = service.load();
+    httpMock.expectOne('config.json').flush({
+      apiBaseUrl: 'https://pos.example.com/api/',
+      endpoints: { reports: 'https://reports.example.com/reports' }
+    });
+    await loaded;
+
+    expect(service.getEndpointUrl('clients')).toBe('https://pos.example.com/api/clients');
+    expect(service.getEndpointUrl('reports')).toBe('https://reports.example.com/reports');
+    expect(service.config.timeouts.default).toBe(30000);
+  });
+
+  it('should only treat configured origins as API requests', async () => {
+    const loaded = service.load();
+    httpMock.expectOne('config.json').flush({ apiBaseUrl: 'https://pos.example.com/api' });
+    await loaded;
+
+    expect(service.isApiRequest('https://pos.example.com/api/orders?page=0')).toBeTrue();
+    expect(service.isApiRequest('https://pos.example.com/apiary/orders')).toBeFalse();
+    expect(service.isApiRequest('https://cdn.example.com/products/logo.png')).toBeFalse();
+  });
+
+  it('should fall back to defaults when config.json is missing', async () => {
+    const loaded = service.load();
+    httpMock.expectOne('config.json').flush('Not found', { status: 404, statusText: 'Not Found' });
+    const config = await loaded;
+
+    expect(config.apiBaseUrl).toBe('http://localhost:9000');
+    expect(config.orders.requestBody).toBe('items');
+  });
+});
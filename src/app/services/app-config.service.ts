@@ -0,0 +1,176 @@
+import { HttpBackend, HttpClient } from "@angular/common/http";
+import { Injectable, InjectionToken, inject } from "@angular/core";
+import { catchError, firstValueFrom, map, of } from "rxjs";
+import { ApiEndpoint, AppConfig } from "../models/app-config.model";
+
+/**
+ * Injection token exposing the loaded runtime configuration
+ * Provided in app.config.ts once the initializer has loaded config.json; the factory
+ * serves the same configuration where those providers are absent, e.g. in tests
+ */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+    providedIn: 'root',
+    factory: () => inject(AppConfigService).config
+});
+
+/**
+ * Configuration used when config.json is missing or incomplete
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+    apiBaseUrl: 'http://localhost:9000',
+    endpoints: {},
+    timeouts: {
+        default: 30000,
+        upload: 120000
+    },
+    auth: {
+        refreshLeadSeconds: 60
+    },
+    idle: {
+        lockAfterSeconds: 300,
+        warningSeconds: 30,
+        logoutAfterSeconds: 1800
+    },
+    permissions: {
+        source: 'config'
+    },
+    discounts: {
+        maxPercentByRole: {
+            SUPERVISOR: 100,
+            OPERATOR: 10
+        }
+    },
+    tax: {
+        priceMode: 'INCLUSIVE'
+    },
+    orders: {
+        requestBody: 'items'
+    }
+};
+
+/**
+ * Default path of each endpoint relative to the API base URL
+ */
+const ENDPOINT_PATHS: Record<ApiEndpoint, string> = {
+    auth: '/auth',
+    users: '/users',
+    clients: '/clients',
+    products: '/products',
+    inventory: '/inventory',
+    orders: '/orders',
+    invoice: '/invoice',
+    reports: '/reports',
+    returns: '/returns'
+};
+
+/**
+ * Service that loads config.json at bootstrap and resolves API URLs from it
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AppConfigService {
+    private readonly CONFIG_URL = 'config.json';
+
+    // Bypasses interceptors, which themselves depend on the configuration
+    private http: HttpClient;
+    private appConfig: AppConfig = DEFAULT_APP_CONFIG;
+
+    constructor(httpBackend: HttpBackend) {
+        this.http = new HttpClient(httpBackend);
+    }
+
+    /**
+     * Current configuration
+     */
+    get config(): AppConfig {
+        return this.appConfig;
+    }
+
+    /**
+     * Loads config.json and merges it over the defaults
+     * Falls back to the defaults if the file cannot be loaded
+     * @returns Promise resolving to the effective configuration
+     */
+    load(): Promise<AppConfig> {
+        return firstValueFrom(
+            this.http.get<Partial<AppConfig>>(this.CONFIG_URL).pipe(
+                map(config => this.mergeConfig(config)),
+                catchError(error => {
+                    console.warn('Could not load config.json, using default configuration:', error);
+                    return of(DEFAULT_APP_CONFIG);
+                })
+            )
+        ).then(config => {
+            this.appConfig = config;
+            return config;
+        });
+    }
+
+    /**
+     * Resolves the full URL of an endpoint, honouring per-endpoint overrides
+     * @param endpoint - Endpoint name
+     * @returns Absolute or base-relative URL without trailing slash
+     */
+    getEndpointUrl(endpoint: ApiEndpoint): string {
+        const override = this.appConfig.endpoints[endpoint];
+        if (override) {
+            return this.stripTrailingSlash(override);
+        }
+        return `${this.appConfig.apiBaseUrl}${ENDPOINT_PATHS[endpoint]}`;
+    }
+
+    /**
+     * Checks whether a request URL targets the configured API
+     * @param url - Request URL
+     * @returns True if the URL starts with the base URL or an endpoint override
+     */
+    isApiRequest(url: string): boolean {
+        const requestUrl = this.toAbsoluteUrl(url);
+        const apiRoots = [
+            this.appConfig.apiBaseUrl,
+            ...Object.values(this.appConfig.endpoints)
+        ]
+            .filter((root): root is string => !!root)
+            .map(root => this.stripTrailingSlash(this.toAbsoluteUrl(root)));
+
+        return apiRoots.some(root => requestUrl === root || requestUrl.startsWith(`${root}/`) || requestUrl.startsWith(`${root}?`));
+    }
+
+    /**
+     * Merges a partial configuration over the defaults
+     * @param config - Configuration read from config.json
+     * @returns Complete configuration
+     */
+    private mergeConfig(config: Partial<AppConfig> | null): AppConfig {
+        return {
+            apiBaseUrl: this.stripTrailingSlash(config?.apiBaseUrl || DEFAULT_APP_CONFIG.apiBaseUrl),
+            endpoints: { ...DEFAULT_APP_CONFIG.endpoints, ...config?.endpoints },
+            timeouts: { ...DEFAULT_APP_CONFIG.timeouts, ...config?.timeouts },
+            auth: { ...DEFAULT_APP_CONFIG.auth, ...config?.auth },
+            idle: { ...DEFAULT_APP_CONFIG.idle, ...config?.idle },
+            permissions: { ...DEFAULT_APP_CONFIG.permissions, ...config?.permissions },
+            discounts: { ...DEFAULT_APP_CONFIG.discounts, ...config?.discounts },
+            tax: { ...DEFAULT_APP_CONFIG.tax, ...config?.tax },
+            orders: { ...DEFAULT_APP_CONFIG.orders, ...config?.orders }
+        };
+    }
+
+    /**
+     * Removes a trailing slash from a URL
+     */
+    private stripTrailingSlash(url: string): string {
+        return url.endsWith('/') ? url.slice(0, -1) : url;
+    }
+
+    /**
+     * Resolves a possibly relative URL against the document base
+     */
+    private toAbsoluteUrl(url: string): string {
+        try {
+            return new URL(url, document.baseURI).href;
+        } catch {
+            return url;
+        }
+    }
+}
@@ -1,10 +1,15 @@
 
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { BehaviorSubject, Observable, throwError, of } from 'rxjs';
-import { catchError, map, tap } from 'rxjs/operators';
-import { AuthState, LoginForm, SignupForm, LoginResponse, UserResponse } from '../models/auth.model';
+import { BehaviorSubject, Observable, Subject, throwError, of } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap } from 'rxjs/operators';
+import {
+  AuthState, LoginForm, SignupForm, LoginResponse, RefreshResponse, SessionSyncEvent, UserResponse,
+  ForgotPasswordForm, ResetPasswordForm, ChangePasswordForm
+} from '../models/auth.model';
+import { AppConfig } from '../models/app-config.model';
 import { ToastService } from './toast.service';
+import { APP_CONFIG, AppConfigService } from './app-config.service';
 
 /**
  * Authentication service that handles all auth-related API calls
@@ -14,9 +19,11 @@ import { ToastService } from './toast.service';
   providedIn: 'root'
 })
 export class AuthService {
-  private readonly API_BASE_URL = 'http://localhost:9000/auth';
+  private readonly API_BASE_URL: string;
   private readonly TOKEN_KEY = 'jwt_token';
   private readonly USER_KEY = 'user_data';
+  private readonly REFRESH_TOKEN_KEY = 'refresh_token';
+  private readonly REFRESH_LEAD_MS: number;
   
   // BehaviorSubject to maintain auth state across the app
   private authState$ = new BehaviorSubject<AuthState>({
@@ -26,12 +33,27 @@ export class AuthService {
     error: null
   });
 
+  // Refresh shared by every caller while it is in flight
+  private refreshInFlight$: Observable<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Session changes picked up from other tabs
+  private sessionSync$ = new Subject<SessionSyncEvent>();
+
   constructor(
     private http: HttpClient,
-    private toastService: ToastService
+    private toastService: ToastService,
+    appConfig: AppConfigService,
+    @Inject(APP_CONFIG) config: AppConfig
   ) {
+    this.API_BASE_URL = appConfig.getEndpointUrl('auth');
+    this.REFRESH_LEAD_MS = config.auth.refreshLeadSeconds * 1000;
+
     // Check if user is already logged in on app start
     this.checkAuthState();
+
+    // Keep this tab in sync with logins, logouts and refreshes made in other tabs
+    window.addEventListener('storage', (event: StorageEvent) => this.handleStorageChange(event));
   }
 
   /**
@@ -62,6 +84,20 @@ export class AuthService {
     return localStorage.getItem(this.TOKEN_KEY);
   }
 
+  /**
+   * Session changes made in other tabs, emitted after authState has been updated
+   */
+  get sessionSync(): Observable<SessionSyncEvent> {
+    return this.sessionSync$.asObservable();
+  }
+
+  /**
+   * Check if a token refresh is currently in progress
+   */
+  get isRefreshing(): boolean {
+    return this.refreshInFlight$ !== null;
+  }
+
   /**
    * User signup
    * @param signupForm - signup form data
@@ -110,7 +146,8 @@ export class AuthService {
       .pipe(
         tap((response: LoginResponse) => {
           // Store JWT token and user data
-          this.storeAuthData(response.token, response.user);
+          this.storeAuthData(response.token, response.user, response.refreshToken);
+          this.scheduleRefresh(response.token);
           
           this.updateAuthState({
             isAuthenticated: true,
@@ -164,7 +201,131 @@ export class AuthService {
   }
 
   /**
-   * Validate JWT token
+   * Request a password reset token, sent to the user's email
+   * @param forgotForm - forgot password form data
+   * @returns Observable<string>
+   */
+  requestPasswordReset(forgotForm: ForgotPasswordForm): Observable<string> {
+    this.updateAuthState({ loading: true, error: null });
+
+    const normalizedForm = {
+      email: forgotForm.email.toLowerCase().trim()
+    };
+
+    return this.http.post(`${this.API_BASE_URL}/forgot-password`, normalizedForm, { responseType: 'text' })
+      .pipe(
+        tap(() => {
+          // Same message whether or not the account exists, so emails can't be probed
+          this.toastService.showSuccess('If an account exists for that email, a reset code has been sent.');
+          this.updateAuthState({ loading: false, error: null });
+        }),
+        catchError((error: HttpErrorResponse) => {
+          const errorMessage = this.extractErrorMessage(error);
+          this.toastService.showError(errorMessage);
+          this.updateAuthState({ loading: false, error: errorMessage });
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Set a new password using a reset token
+   * @param resetForm - reset password form data
+   * @returns Observable<string>
+   */
+  resetPassword(resetForm: ResetPasswordForm): Observable<string> {
+    this.updateAuthState({ loading: true, error: null });
+
+    const normalizedForm = {
+      ...resetForm,
+      token: resetForm.token.trim()
+    };
+
+    return this.http.post(`${this.API_BASE_URL}/reset-password`, normalizedForm, { responseType: 'text' })
+      .pipe(
+        tap(() => {
+          this.toastService.showSuccess('Password updated. Please sign in with your new password.');
+          this.updateAuthState({ loading: false, error: null });
+        }),
+        catchError((error: HttpErrorResponse) => {
+          const errorMessage = this.extractErrorMessage(error);
+          this.toastService.showError(errorMessage);
+          this.updateAuthState({ loading: false, error: errorMessage });
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Change the signed-in user's password
+   * @param changeForm - change password form data
+   * @returns Observable<string>
+   */
+  changePassword(changeForm: ChangePasswordForm): Observable<string> {
+    return this.http.post(`${this.API_BASE_URL}/change-password`, changeForm, { responseType: 'text' })
+      .pipe(
+        tap(() => {
+          this.toastService.showSuccess('Password changed successfully');
+        }),
+        catchError((error: HttpErrorResponse) => {
+          // A wrong current password comes back as 400, not 401, so the session is kept
+          const errorMessage = this.extractErrorMessage(error);
+          this.toastService.showError(errorMessage);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Exchange the stored refresh token for a new JWT token
+   * Concurrent callers share a single in-flight request
+   * @returns Observable<string> - the new JWT token
+   */
+  refresh(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const tokenBeforeRefresh = this.token;
+    const refreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    this.refreshInFlight$ = this.http.post<RefreshResponse>(`${this.API_BASE_URL}/refresh`, { refreshToken })
+      .pipe(
+        map((response: RefreshResponse) => {
+          const user = response.user ?? this.currentUser;
+          if (!user) {
+            throw new Error('No user session to refresh');
+          }
+
+          this.storeAuthData(response.token, user, response.refreshToken ?? refreshToken);
+          this.updateAuthState({ isAuthenticated: true, user: user });
+          this.scheduleRefresh(response.token);
+          return response.token;
+        }),
+        catchError((error: HttpErrorResponse) => {
+          // Another tab may have refreshed (and rotated the refresh token) first
+          const latestToken = this.token;
+          if (latestToken && latestToken !== tokenBeforeRefresh && !this.isTokenExpired(latestToken)) {
+            return of(latestToken);
+          }
+
+          console.error('Token refresh failed:', error);
+          return throwError(() => error);
+        }),
+        finalize(() => {
+          this.refreshInFlight$ = null;
+        }),
+        shareReplay(1)
+      );
+
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Validate JWT token, refreshing it if it has expired
    * @returns Observable<boolean>
    */
   validateToken(): Observable<boolean> {
@@ -175,10 +336,15 @@ export class AuthService {
       return of(false);
     }
 
-    // Check if token is expired (basic check)
+    // Expired tokens get one chance to be refreshed before the session ends
     if (this.isTokenExpired(token)) {
-      this.clearAuthData();
-      return of(false);
+      return this.refresh().pipe(
+        map(() => true),
+        catchError(() => {
+          this.clearAuthState();
+          return of(false);
+        })
+      );
     }
 
     // For now, we'll assume the token is valid if it exists and isn't expired
@@ -202,6 +368,53 @@ export class AuthService {
     }
   }
 
+  /**
+   * Read the expiry time of a JWT token
+   * @param token - JWT token to read
+   * @returns Expiry as epoch milliseconds, or null if the token can't be parsed
+   */
+  private getTokenExpiry(token: string): number | null {
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1]));
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Schedule a proactive refresh shortly before the token expires
+   * @param token - JWT token whose expiry drives the timer
+   */
+  private scheduleRefresh(token: string): void {
+    this.cancelScheduledRefresh();
+
+    const expiresAt = this.getTokenExpiry(token);
+    if (expiresAt === null || !localStorage.getItem(this.REFRESH_TOKEN_KEY)) {
+      return;
+    }
+
+    // Jitter keeps tabs sharing the same token from refreshing at the same instant
+    const jitter = Math.random() * Math.min(this.REFRESH_LEAD_MS / 2, 10000);
+    const delay = Math.max(expiresAt - Date.now() - this.REFRESH_LEAD_MS - jitter, 0);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().subscribe({
+        error: () => console.warn('Proactive token refresh failed; the session will end when the token expires')
+      });
+    }, delay);
+  }
+
+  /**
+   * Cancel any pending proactive refresh
+   */
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
   /**
    * Check authentication state on app initialization
    */
@@ -213,14 +426,16 @@ export class AuthService {
       try {
         const user: UserResponse = JSON.parse(userData);
         
-        // Check if token is still valid
-        if (!this.isTokenExpired(token)) {
+        // Keep the session if the token is still valid or can be refreshed
+        // (AuthGuard refreshes an expired token before activating a route)
+        if (!this.isTokenExpired(token) || localStorage.getItem(this.REFRESH_TOKEN_KEY)) {
           this.updateAuthState({
             isAuthenticated: true,
             user: user,
             loading: false,
             error: null
           });
+          this.scheduleRefresh(token);
         } else {
           // Token expired, clear data
           this.clearAuthData();
@@ -233,19 +448,68 @@ export class AuthService {
   }
 
   /**
-   * Store JWT token and user data
+   * Apply auth changes written to localStorage by another tab
+   * @param event - storage event raised for changes made elsewhere
+   */
+  private handleStorageChange(event: StorageEvent): void {
+    // key is null when another tab cleared localStorage entirely
+    if (event.storageArea !== localStorage ||
+        (event.key !== null && event.key !== this.TOKEN_KEY && event.key !== this.USER_KEY)) {
+      return;
+    }
+
+    const previousUser = this.currentUser;
+    const token = localStorage.getItem(this.TOKEN_KEY);
+    const userData = localStorage.getItem(this.USER_KEY);
+
+    if (!token || !userData) {
+      // A login writes the token before the user; wait for both before treating it as a session
+      if (this.isAuthenticated && !token) {
+        this.cancelScheduledRefresh();
+        this.updateAuthState({ isAuthenticated: false, user: null, loading: false, error: null });
+        this.sessionSync$.next('logout');
+      }
+      return;
+    }
+
+    let user: UserResponse;
+    try {
+      user = JSON.parse(userData);
+    } catch (error) {
+      return;
+    }
+
+    this.updateAuthState({ isAuthenticated: true, user: user, loading: false, error: null });
+    this.scheduleRefresh(token);
+
+    if (!previousUser || previousUser.id !== user.id) {
+      this.sessionSync$.next('login');
+    } else if (previousUser.role !== user.role || previousUser.name !== user.name || previousUser.email !== user.email) {
+      this.sessionSync$.next('user-updated');
+    } else if (event.key === this.TOKEN_KEY) {
+      this.sessionSync$.next('refresh');
+    }
+  }
+
+  /**
+   * Store JWT token, user data and refresh token
    */
-  private storeAuthData(token: string, user: UserResponse): void {
+  private storeAuthData(token: string, user: UserResponse, refreshToken?: string): void {
     localStorage.setItem(this.TOKEN_KEY, token);
     localStorage.setItem(this.USER_KEY, JSON.stringify(user));
+    if (refreshToken) {
+      localStorage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
+    }
   }
 
   /**
-   * Clear JWT token and user data
+   * Clear JWT token, user data and refresh token
    */
   private clearAuthData(): void {
+    this.cancelScheduledRefresh();
     localStorage.removeItem(this.TOKEN_KEY);
     localStorage.removeItem(this.USER_KEY);
+    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
   }
 
   /**
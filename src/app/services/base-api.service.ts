@@ -0,0 +1,295 @@
+import { HttpClient, HttpErrorResponse } from "@angular/common/http";
+import { inject } from "@angular/core";
+import { BehaviorSubject, Observable, catchError, map, tap, throwError } from "rxjs";
+import { ApiEndpoint } from "../models/app-config.model";
+import { Page, QueryParams, UploadResponse } from "../models/api.model";
+import { normalizeHttpError } from "../utils/http-error.util";
+import { toPage } from "../utils/page.util";
+import { AppConfigService } from "./app-config.service";
+import { LoadingService } from "./loading.service";
+
+/**
+ * Base class for resource services
+ * Provides paged search, get, create, update and upload against one API endpoint,
+ * with paged responses normalized to Page<T> (bare arrays from older endpoints included),
+ * with per-operation loading state and identical error handling
+ *
+ * Loading is tracked in the LoadingService under `<endpoint>.<operation>`,
+ * e.g. 'products.search', so one call finishing never hides another's spinner
+ *
+ * A new resource only needs a subclass that passes its endpoint and display name:
+ *
+ *     @Injectable({ providedIn: 'root' })
+ *     export class SupplierService extends BaseApiService<Supplier, SupplierRequest> {
+ *         constructor(http: HttpClient, appConfig: AppConfigService) {
+ *             super(http, appConfig, 'suppliers', 'Supplier');
+ *         }
+ *     }
+ *
+ * @typeParam T - Resource returned by the API
+ * @typeParam TCreate - Request body for create
+ * @typeParam TUpdate - Request body for update
+ */
+export abstract class BaseApiService<T, TCreate = T, TUpdate = TCreate> {
+    protected readonly apiUrl: string;
+    private loadingService = inject(LoadingService);
+
+    // Loading state for any operation on this resource
+    public loading$: Observable<boolean>;
+
+    // Error state management
+    private errorSubject = new BehaviorSubject<string>('');
+    public error$ = this.errorSubject.asObservable();
+
+    protected constructor(
+        protected http: HttpClient,
+        appConfig: AppConfigService,
+        private endpoint: ApiEndpoint,
+        protected readonly resourceName: string
+    ) {
+        this.apiUrl = appConfig.getEndpointUrl(endpoint);
+        this.loading$ = this.loadingService.isLoading(endpoint);
+    }
+
+    /**
+     * Observe whether an operation on this resource is running
+     * @param operation - Operation name, e.g. 'search'; omit for any operation
+     * @returns Observable<boolean>
+     */
+    isLoading(operation?: string): Observable<boolean> {
+        return this.loadingService.isLoading(operation ? `${this.endpoint}.${operation}` : this.endpoint);
+    }
+
+    /**
+     * Searches the resource with query parameters and pagination (GET)
+     * @param query - Filters (and optional sort) sent as query parameters
+     * @param page - Page number (0-based)
+     * @param size - Page size
+     * @param path - Path below the endpoint, e.g. '/search'
+     * @param operation - Loading key for this call
+     * @returns Observable of the requested Page
+     */
+    searchPage(query: QueryParams = {}, page: number = 0, size: number = 10, path: string = '', operation: string = 'search'): Observable<Page<T>> {
+        const url = this.buildUrl(path, { ...query, page, size });
+
+        return this.request(this.http.get<Page<T> | T[]>(url), operation).pipe(
+            map(response => toPage(response, page, size)),
+            tap(result => {
+                console.log(`${this.resourceName} search completed:`, result.content.length, 'of', result.totalElements);
+            })
+        );
+    }
+
+    /**
+     * Searches the resource with a request body and pagination (POST)
+     * @param criteria - Search criteria sent as the body
+     * @param page - Page number (0-based)
+     * @param size - Page size
+     * @param path - Path below the endpoint
+     * @param operation - Loading key for this call
+     * @param sort - Sort as 'field,asc' or 'field,desc', sent as a query parameter
+     * @returns Observable of the requested Page
+     */
+    searchPageByPost(criteria: object, page: number = 0, size: number = 10, path: string = '/search', operation: string = 'search', sort: string | null = null): Observable<Page<T>> {
+        const url = this.buildUrl(path, { page, size, sort });
+
+        return this.request(this.http.post<Page<T> | T[]>(url, criteria), operation).pipe(
+            map(response => toPage(response, page, size)),
+            tap(result => {
+                console.log(`${this.resourceName} search completed:`, result.content.length, 'of', result.totalElements);
+            })
+        );
+    }
+
+    /**
+     * Same as searchPage, returning only the rows (for lookups/dropdowns)
+     * @returns Observable of matching resources
+     */
+    search(query: QueryParams = {}, page: number = 0, size: number = 10, path: string = '', operation: string = 'search'): Observable<T[]> {
+        return this.searchPage(query, page, size, path, operation).pipe(map(result => result.content));
+    }
+
+    /**
+     * Same as searchPageByPost, returning only the rows (for lookups/dropdowns)
+     * @returns Observable of matching resources
+     */
+    searchByPost(criteria: object, page: number = 0, size: number = 10, path: string = '/search', operation: string = 'search'): Observable<T[]> {
+        return this.searchPageByPost(criteria, page, size, path, operation).pipe(map(result => result.content));
+    }
+
+    /**
+     * Gets a single resource by ID
+     * @param id - Resource ID
+     * @param path - Path below the resource, e.g. '/order-items'
+     * @returns Observable of the resource
+     */
+    get(id: number, path: string = ''): Observable<T> {
+        return this.request(this.http.get<T>(this.buildUrl(`/${id}${path}`)), 'get').pipe(
+            tap(resource => {
+                console.log(`${this.resourceName} retrieved:`, resource);
+            })
+        );
+    }
+
+    /**
+     * Creates a new resource
+     * @param body - Resource data to create
+     * @returns Observable of the created resource
+     */
+    create(body: TCreate): Observable<T> {
+        return this.request(this.http.post<T>(this.apiUrl, body), 'create').pipe(
+            tap(created => {
+                console.log(`${this.resourceName} created successfully:`, created);
+            })
+        );
+    }
+
+    /**
+     * Updates an existing resource
+     * @param id - Resource ID to update
+     * @param body - Updated resource data
+     * @returns Observable of the updated resource
+     */
+    update(id: number, body: TUpdate): Observable<T> {
+        return this.request(this.http.put<T>(this.buildUrl(`/${id}`), body), 'update').pipe(
+            tap(updated => {
+                console.log(`${this.resourceName} updated successfully:`, updated);
+            })
+        );
+    }
+
+    /**
+     * Uploads a TSV file; when the backend reports row errors the returned TSV is downloaded
+     * @param file - TSV file to upload
+     * @param fallbackFilename - Download name if the backend doesn't send one
+     * @param path - Path below the endpoint
+     * @returns Observable of the upload response
+     */
+    upload<R extends UploadResponse>(file: File, fallbackFilename: string, path: string = '/upload'): Observable<R> {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        return this.request(this.http.post<R>(this.buildUrl(path), formData), 'upload').pipe(
+            tap(response => {
+                console.log(`${this.resourceName} upload completed:`, response);
+
+                if (response.status === 'error' && response.tsvBase64) {
+                    this.downloadBase64File(response.tsvBase64, response.filename || fallbackFilename, 'text/tab-separated-values');
+                }
+            })
+        );
+    }
+
+    /**
+     * Manually clear error state (public method for components)
+     */
+    public clearErrorState(): void {
+        this.clearError();
+    }
+
+    /**
+     * Wraps a request with loading state and shared error handling
+     * @param request$ - The HTTP request
+     * @param operation - Loading key for the request, or null for quick lookups that show no spinner
+     * @returns Observable of the response
+     */
+    protected request<R>(request$: Observable<R>, operation: string | null): Observable<R> {
+        this.clearError();
+
+        const handled$ = request$.pipe(
+            catchError(this.handleError.bind(this))
+        );
+
+        return operation
+            ? handled$.pipe(this.loadingService.track<R>(`${this.endpoint}.${operation}`))
+            : handled$;
+    }
+
+    /**
+     * Builds a URL below the endpoint, skipping empty query values
+     * @param path - Path below the endpoint
+     * @param query - Query parameters
+     * @returns Absolute request URL
+     */
+    protected buildUrl(path: string = '', query: QueryParams = {}): string {
+        const params = new URLSearchParams();
+        Object.entries(query).forEach(([key, value]) => {
+            if (value !== null && value !== undefined && value !== '') {
+                params.append(key, value.toString());
+            }
+        });
+
+        const queryString = params.toString();
+        return `${this.apiUrl}${path}${queryString ? `?${queryString}` : ''}`;
+    }
+
+    /**
+     * Downloads base64 content as a file
+     * @param base64Content - Base64 encoded file content
+     * @param filename - Name of the file to download
+     * @param mimeType - MIME type of the file
+     */
+    protected downloadBase64File(base64Content: string, filename: string, mimeType: string): void {
+        try {
+            const binaryString = atob(base64Content);
+            const bytes = new Uint8Array(binaryString.length);
+            for (let i = 0; i < binaryString.length; i++) {
+                bytes[i] = binaryString.charCodeAt(i);
+            }
+
+            this.downloadBlob(new Blob([bytes], { type: mimeType }), filename);
+        } catch (error) {
+            console.error('Error downloading file:', error);
+        }
+    }
+
+    /**
+     * Saves a blob through a temporary download link
+     * @param blob - File content
+     * @param filename - Name of the file to download
+     */
+    protected downloadBlob(blob: Blob, filename: string): void {
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Handles HTTP errors and sets error state
+     * @param error - HTTP error response
+     * @returns Observable that throws the error
+     */
+    protected handleError(error: HttpErrorResponse): Observable<never> {
+        // Don't handle 401 errors here - they're handled by the interceptor
+        if (error.status === 401) {
+            return throwError(() => error);
+        }
+
+        const errorMessage = normalizeHttpError(error, this.resourceName);
+
+        console.error('API Error:', error);
+        this.setError(errorMessage);
+
+        return throwError(() => new Error(errorMessage));
+    }
+
+    /**
+     * Sets the error message
+     * @param error - Error message to display
+     */
+    private setError(error: string): void {
+        this.errorSubject.next(error);
+    }
+
+    /**
+     * Clears the current error state
+     */
+    private clearError(): void {
+        this.errorSubject.next('');
+    }
+}
@@ -1,56 +1,32 @@
-import { HttpClient, HttpErrorResponse } from "@angular/common/http";
+import { HttpClient } from "@angular/common/http";
 import { Injectable } from "@angular/core";
-import { BehaviorSubject, Observable, catchError, finalize, map, of, tap, throwError } from "rxjs";
+import { Observable } from "rxjs";
+import { Page } from "../models/api.model";
 import { Client, ClientRequest } from "../models/client.model";
+import { AppConfigService } from "./app-config.service";
+import { BaseApiService } from "./base-api.service";
 
 /**
  * Service for managing client data operations
  * Handles CRUD operations with proper error handling and loading states
  */
-
-// Service hogi alag.. Joh URL aur param receiv ehone pe khduse GET/POST call hoga..
-// Error handling ki aalg file hogi same as API Calls  one jaha 
 @Injectable({
     providedIn: 'root'
 })
-export class ClientService {
-    private apiUrl = 'http://localhost:9000/clients';
-    
-    // Create file base urls ki... Can keep this URL part here
-
-    // Loading state management
-    private loadingSubject = new BehaviorSubject<boolean>(false);
-    public loading$ = this.loadingSubject.asObservable();
-    
-    // Error state management
-    private errorSubject = new BehaviorSubject<string>('');
-    public error$ = this.errorSubject.asObservable();
-
-    constructor(private http: HttpClient) {}
+export class ClientService extends BaseApiService<Client, ClientRequest> {
+    constructor(http: HttpClient, appConfig: AppConfigService) {
+        super(http, appConfig, 'clients', 'Client');
+    }
 
     /**
      * Retrieves all clients from the API with pagination
      * @param page - Page number (0-based)
      * @param size - Page size
-     * @returns Observable of Client array
+     * @param sort - Optional sort, e.g. 'name,asc'
+     * @returns Observable of a Page of clients
      */
-    getClients(page: number = 0, size: number = 10): Observable<Client[]> {
-        this.setLoading(true);
-        this.clearError();
-        
-        const params = new URLSearchParams();
-        params.append('page', page.toString());
-        params.append('size', size.toString());
-        
-        const url = `${this.apiUrl}?${params.toString()}`;
-        
-        return this.http.get<Client[]>(url).pipe(
-            tap(clients => {
-                console.log('Clients loaded successfully:', clients.length);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+    getClients(page: number = 0, size: number = 10, sort: string | null = null): Observable<Page<Client>> {
+        return this.searchPage({ sort }, page, size);
     }
 
     /**
@@ -59,16 +35,7 @@ export class ClientService {
      * @returns Observable of the created Client
      */
     addClient(client: ClientRequest): Observable<Client> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.post<Client>(this.apiUrl, client).pipe(
-            tap(newClient => {
-                console.log('Client added successfully:', newClient);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+        return this.create(client);
     }
 
     /**
@@ -78,90 +45,7 @@ export class ClientService {
      * @returns Observable of the updated Client
      */
     updateClient(id: number, client: ClientRequest): Observable<Client> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.put<Client>(`${this.apiUrl}/${id}`, client).pipe(
-            tap(updatedClient => {
-                console.log('Client updated successfully:', updatedClient);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
-    }
-
-    /**
-     * Handles HTTP errors and sets error state
-     * @param error - HTTP error response
-     * @returns Observable that throws the error
-     */
-    private handleError(error: HttpErrorResponse): Observable<never> {
-        let errorMessage = 'An unexpected error occurred';
-        
-        // Don't handle 401 errors here - they're handled by the interceptor
-        if (error.status === 401) {
-            return throwError(() => error);
-        }
-        
-        if (error.error instanceof ErrorEvent) {
-            // Client-side error
-            errorMessage = `Client Error: ${error.error.message}`;
-        } else {
-            // Check if it's a structured error response from backend
-            if (error.error && typeof error.error === 'object' && error.error.message) {
-                // Extract the exact message from backend structured error
-                errorMessage = error.error.message;
-            } else if (error.error && typeof error.error === 'string') {
-                // If error is a string, use it directly
-                errorMessage = error.error;
-            } else {
-                // Fallback to generic server error
-                errorMessage = `Server Error: ${error.status} - ${error.message}`;
-                
-                if (error.status === 404) {
-                    errorMessage = 'Resource not found';
-                } else if (error.status === 500) {
-                    errorMessage = 'Internal server error';
-                } else if (error.status === 0) {
-                    errorMessage = 'Unable to connect to server';
-                }
-            }
-        }
-        
-        console.error('API Error:', error);
-        this.setError(errorMessage);
-        
-        return throwError(() => new Error(errorMessage));
-    }
-
-    /**
-     * Sets the loading state
-     * @param loading - Whether the service is loading
-     */
-    private setLoading(loading: boolean): void {
-        this.loadingSubject.next(loading);
-    }
-
-    /**
-     * Sets the error message
-     * @param error - Error message to display
-     */
-    private setError(error: string): void {
-        this.errorSubject.next(error);
-    }
-
-    /**
-     * Clears the current error state
-     */
-    private clearError(): void {
-        this.errorSubject.next('');
-    }
-
-    /**
-     * Manually clear error state (public method for components)
-     */
-    public clearErrorState(): void {
-        this.clearError();
+        return this.update(id, client);
     }
 
     /**
@@ -169,26 +53,11 @@ export class ClientService {
      * @param name - Name to search for
      * @param page - Page number (0-based)
      * @param size - Page size
-     * @returns Observable of Client array matching the search criteria
+     * @param sort - Optional sort, e.g. 'name,asc'
+     * @returns Observable of a Page of clients matching the search criteria
      */
-    searchClientsByName(name: string, page: number = 0, size: number = 10): Observable<Client[]> {
-        this.setLoading(true);
-        this.clearError();
-        
-        const params = new URLSearchParams();
-        params.append('name', name);
-        params.append('page', page.toString());
-        params.append('size', size.toString());
-        
-        const searchUrl = `${this.apiUrl}/search?${params.toString()}`;
-        
-        return this.http.get<Client[]>(searchUrl).pipe(
-            tap(clients => {
-                console.log('Clients search completed:', clients.length, 'results for:', name);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+    searchClientsByName(name: string, page: number = 0, size: number = 10, sort: string | null = null): Observable<Page<Client>> {
+        return this.searchPage({ name, sort }, page, size, '/search');
     }
 
     /**
@@ -196,21 +65,7 @@ export class ClientService {
      * @returns Observable of all Client array
      */
     getAllClients(): Observable<Client[]> {
-        this.setLoading(true);
-        this.clearError();
-        
-        const params = new URLSearchParams();
-        params.append('page', '0');
-        params.append('size', '1000'); // Large number to get all clients
-        
-        const url = `${this.apiUrl}?${params.toString()}`;
-        
-        return this.http.get<Client[]>(url).pipe(
-            tap(clients => {
-                console.log('All clients loaded successfully:', clients.length);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+        // Large page size to get all clients
+        return this.search({}, 0, 1000, '', 'all');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+
+import { HeldCartService } from './held-cart.service';
+import { AuthService } from './auth.service';
+import { OrderDraft } from '../models/held-cart.model';
+
+describe('HeldCartService', () => {
+  let service: HeldCartService;
+  let auth: { currentUser: { id: number } };
+
+  const draft = (barcode: string): OrderDraft => ({
+    orderItems: [{ barcode, quantity: 1, mrp: 10 }],
+    barcodeValidationState: { 0: 'valid' },
+    validatedBarcodes: { 0: true },
+    products: {},
+    priceOverrides: {}
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    auth = { currentUser: { id: 7 } };
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: auth }]
+    });
+    service = TestBed.inject(HeldCartService);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should list held carts newest first and remove a resumed cart', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1, 10, 0));
+    service.holdCart('Alice', draft('A1'));
+    jasmine.clock().tick(60000);
+    const bob = service.holdCart('Bob', draft('B1'));
+    jasmine.clock().uninstall();
+
+    expect(service.getHeldCarts().map(cart => cart.name)).toEqual(['Bob', 'Alice']);
+
+    const resumed = service.resumeCart(bob.id);
+    expect(resumed?.draft.orderItems[0].barcode).toBe('B1');
+    expect(service.getHeldCarts().map(cart => cart.name)).toEqual(['Alice']);
+    expect(service.resumeCart(bob.id)).toBeNull();
+  });
+
+  it('should keep drafts and held carts separate per user', () => {
+    service.saveDraft(draft('A1'));
+    service.holdCart('Alice', draft('A2'));
+
+    auth.currentUser = { id: 8 };
+    expect(service.getDraft()).toBeNull();
+    expect(service.getHeldCarts()).toEqual([]);
+
+    auth.currentUser = { id: 7 };
+    expect(service.getDraft()?.orderItems[0].barcode).toBe('A1');
+    expect(service.getHeldCarts().length).toBe(1);
+  });
+
+  it('should move the old shared draft to the current user once', () => {
+    localStorage.setItem('add-order-modal-items', JSON.stringify(draft('OLD')));
+
+    expect(service.getDraft()?.orderItems[0].barcode).toBe('OLD');
+    expect(localStorage.getItem('add-order-modal-items')).toBeNull();
+
+    auth.currentUser = { id: 8 };
+    expect(service.getDraft()).toBeNull();
+  });
+});
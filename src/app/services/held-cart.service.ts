@@ -0,0 +1,104 @@
+import { Injectable } from '@angular/core';
+import { HeldCart, OrderDraft } from '../models/held-cart.model';
+import { UserPreferencesService } from './user-preferences.service';
+
+/**
+ * Order builder drafts: the cart being built and the carts parked for later, stored per user
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HeldCartService {
+  private readonly DRAFT_KEY = 'order-draft';
+  private readonly HELD_KEY = 'held-carts';
+  // Single shared draft kept before drafts were stored per user
+  private readonly LEGACY_DRAFT_KEY = 'add-order-modal-items';
+
+  constructor(private preferences: UserPreferencesService) {}
+
+  /**
+   * Gets the cart being built
+   * @returns Draft, or null if none is saved
+   */
+  getDraft(): OrderDraft | null {
+    const draft = this.preferences.get<OrderDraft | null>(this.DRAFT_KEY, null);
+    return draft ?? this.takeLegacyDraft();
+  }
+
+  /**
+   * Saves the cart being built
+   * @param draft - Current draft
+   */
+  saveDraft(draft: OrderDraft): void {
+    this.preferences.set(this.DRAFT_KEY, draft);
+  }
+
+  /**
+   * Gets the held carts, most recently held first
+   * @returns Held carts
+   */
+  getHeldCarts(): HeldCart[] {
+    return [...this.readHeldCarts()].sort((a, b) => b.heldAt - a.heldAt);
+  }
+
+  /**
+   * Parks a draft under a name
+   * @param name - Name to find the cart by, e.g. the customer's
+   * @param draft - Draft to park
+   * @returns The held cart
+   */
+  holdCart(name: string, draft: OrderDraft): HeldCart {
+    const cart: HeldCart = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      heldAt: Date.now(),
+      draft
+    };
+    this.preferences.set(this.HELD_KEY, [...this.readHeldCarts(), cart]);
+    return cart;
+  }
+
+  /**
+   * Takes a held cart off the list so it can be resumed
+   * @param id - Held cart ID
+   * @returns The held cart, or null if it no longer exists
+   */
+  resumeCart(id: string): HeldCart | null {
+    const cart = this.readHeldCarts().find(held => held.id === id) ?? null;
+    this.discardCart(id);
+    return cart;
+  }
+
+  /**
+   * Deletes a held cart
+   * @param id - Held cart ID
+   */
+  discardCart(id: string): void {
+    this.preferences.set(this.HELD_KEY, this.readHeldCarts().filter(held => held.id !== id));
+  }
+
+  private readHeldCarts(): HeldCart[] {
+    const carts = this.preferences.get<HeldCart[]>(this.HELD_KEY, []);
+    return Array.isArray(carts) ? carts : [];
+  }
+
+  /**
+   * Moves the old shared draft to the current user, once
+   * @returns The old draft, or null if there is none
+   */
+  private takeLegacyDraft(): OrderDraft | null {
+    try {
+      const saved = localStorage.getItem(this.LEGACY_DRAFT_KEY);
+      if (!saved) {
+        return null;
+      }
+      localStorage.removeItem(this.LEGACY_DRAFT_KEY);
+      const draft = JSON.parse(saved) as OrderDraft;
+      this.saveDraft(draft);
+      return draft;
+    } catch (error) {
+      console.error('Error reading legacy order draft from localStorage:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Inject, Injectable, NgZone } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { AppConfig, IdleSettings } from '../models/app-config.model';
+import { IdleState } from '../models/idle.model';
+import { APP_CONFIG } from './app-config.service';
+import { AuthService } from './auth.service';
+import { ToastService } from './toast.service';
+
+/**
+ * Inactivity monitor for shared terminals
+ * Warns, then locks the screen after the configured idle period and
+ * ends the session after the longer logout threshold
+ *
+ * Activity and the lock are shared through localStorage so every tab
+ * of the same session agrees on when the user was last active
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService {
+  private readonly LAST_ACTIVITY_KEY = 'last_activity';
+  private readonly LOCKED_KEY = 'session_locked';
+  private readonly ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+  private readonly TICK_MS = 1000;
+  private readonly PERSIST_THROTTLE_MS = 5000;
+  private readonly settings: IdleSettings;
+
+  private idleState$ = new BehaviorSubject<IdleState>({ status: 'active', secondsUntilLock: 0 });
+  private lastActivity = Date.now();
+  private lastPersisted = 0;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly activityListener = () => this.recordActivity();
+
+  constructor(
+    private authService: AuthService,
+    private toastService: ToastService,
+    private router: Router,
+    private ngZone: NgZone,
+    @Inject(APP_CONFIG) config: AppConfig
+  ) {
+    this.settings = config.idle;
+
+    // Only monitor while someone is signed in
+    this.authService.authState
+      .pipe(
+        map(authState => authState.isAuthenticated),
+        distinctUntilChanged()
+      )
+      .subscribe(isAuthenticated => isAuthenticated ? this.start() : this.stop());
+
+    // Lock and unlock together with other tabs
+    window.addEventListener('storage', (event: StorageEvent) => {
+      if (event.key === this.LOCKED_KEY && this.authService.isAuthenticated) {
+        if (event.newValue === 'true') {
+          this.setState({ status: 'locked', secondsUntilLock: 0 });
+        } else {
+          this.lastActivity = Date.now();
+          this.setState({ status: 'active', secondsUntilLock: 0 });
+        }
+      }
+    });
+  }
+
+  /**
+   * Get inactivity state as observable
+   */
+  get state(): Observable<IdleState> {
+    return this.idleState$.asObservable();
+  }
+
+  /**
+   * Check if the screen is currently locked
+   */
+  get isLocked(): boolean {
+    return this.idleState$.value.status === 'locked';
+  }
+
+  /**
+   * Dismiss the countdown warning and reset the idle timer
+   */
+  keepAlive(): void {
+    this.recordActivity(true);
+    this.setState({ status: 'active', secondsUntilLock: 0 });
+  }
+
+  /**
+   * Lock the screen immediately
+   */
+  lock(): void {
+    localStorage.setItem(this.LOCKED_KEY, 'true');
+    this.setState({ status: 'locked', secondsUntilLock: 0 });
+  }
+
+  /**
+   * Unlock the screen after the password has been re-entered
+   */
+  unlock(): void {
+    localStorage.removeItem(this.LOCKED_KEY);
+    this.recordActivity(true);
+    this.setState({ status: 'active', secondsUntilLock: 0 });
+  }
+
+  /**
+   * Start listening for activity and ticking the idle timer
+   */
+  private start(): void {
+    if (this.settings.lockAfterSeconds <= 0 || this.tickTimer) {
+      return;
+    }
+
+    this.lastActivity = Date.now();
+    if (localStorage.getItem(this.LOCKED_KEY) === 'true') {
+      this.setState({ status: 'locked', secondsUntilLock: 0 });
+    }
+
+    // Activity events fire constantly; keep them from triggering change detection
+    this.ngZone.runOutsideAngular(() => {
+      this.ACTIVITY_EVENTS.forEach(eventName =>
+        document.addEventListener(eventName, this.activityListener, { passive: true }));
+      this.tickTimer = setInterval(() => this.tick(), this.TICK_MS);
+    });
+  }
+
+  /**
+   * Stop monitoring and clear any lock
+   */
+  private stop(): void {
+    this.ACTIVITY_EVENTS.forEach(eventName =>
+      document.removeEventListener(eventName, this.activityListener));
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    localStorage.removeItem(this.LOCKED_KEY);
+    localStorage.removeItem(this.LAST_ACTIVITY_KEY);
+    this.setState({ status: 'active', secondsUntilLock: 0 });
+  }
+
+  /**
+   * Record user activity (ignored while locked so only unlocking resets the timer)
+   * @param force - persist immediately instead of throttling
+   */
+  private recordActivity(force: boolean = false): void {
+    if (this.isLocked && !force) {
+      return;
+    }
+
+    const now = Date.now();
+    this.lastActivity = now;
+    if (force || now - this.lastPersisted > this.PERSIST_THROTTLE_MS) {
+      this.lastPersisted = now;
+      localStorage.setItem(this.LAST_ACTIVITY_KEY, now.toString());
+    }
+  }
+
+  /**
+   * Evaluate idle time and move between active, warning, locked and logged out
+   */
+  private tick(): void {
+    const sharedActivity = Number(localStorage.getItem(this.LAST_ACTIVITY_KEY)) || 0;
+    const idleMs = Date.now() - Math.max(this.lastActivity, sharedActivity);
+
+    if (idleMs >= this.settings.logoutAfterSeconds * 1000) {
+      this.ngZone.run(() => this.endSession());
+      return;
+    }
+
+    if (this.isLocked) {
+      return;
+    }
+
+    const msUntilLock = this.settings.lockAfterSeconds * 1000 - idleMs;
+    if (msUntilLock <= 0) {
+      this.ngZone.run(() => this.lock());
+    } else if (msUntilLock <= this.settings.warningSeconds * 1000) {
+      this.setState({ status: 'warning', secondsUntilLock: Math.ceil(msUntilLock / 1000) });
+    } else if (this.idleState$.value.status !== 'active') {
+      this.setState({ status: 'active', secondsUntilLock: 0 });
+    }
+  }
+
+  /**
+   * Log out fully after the second idle threshold
+   */
+  private endSession(): void {
+    this.stop();
+    this.authService.logout().subscribe({
+      error: () => console.warn('Logout request failed after inactivity; local session cleared')
+    });
+    this.toastService.showInfo('You were signed out after a period of inactivity.');
+    this.router.navigate(['/auth']);
+  }
+
+  /**
+   * Publish a new state inside the Angular zone, skipping unchanged values
+   */
+  private setState(state: IdleState): void {
+    const current = this.idleState$.value;
+    if (current.status === state.status && current.secondsUntilLock === state.secondsUntilLock) {
+      return;
+    }
+    this.ngZone.run(() => this.idleState$.next(state));
+  }
+}
@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+
+import { LoadingService } from './loading.service';
+
+describe('LoadingService', () => {
+  let service: LoadingService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LoadingService);
+  });
+
+  it('should keep an operation loading until every overlapping call finishes', () => {
+    service.start('products.search');
+    service.start('products.search');
+    service.stop('products.search');
+
+    expect(service.isLoadingNow('products.search')).toBeTrue();
+
+    service.stop('products.search');
+    expect(service.isLoadingNow('products.search')).toBeFalse();
+  });
+
+  it('should not let one operation finishing stop another', () => {
+    service.start('products.search');
+    service.start('products.all');
+    service.stop('products.all');
+
+    expect(service.isLoadingNow('products.search')).toBeTrue();
+    expect(service.isLoadingNow('products.all')).toBeFalse();
+  });
+
+  it('should report a resource prefix as loading while any of its operations run', () => {
+    service.start('orders.invoice');
+
+    expect(service.isLoadingNow('orders')).toBeTrue();
+    expect(service.isLoadingNow('order')).toBeFalse();
+  });
+
+  it('should stop tracking when the observable is unsubscribed', () => {
+    const source = new Subject<number>();
+    const subscription = source.pipe(service.track('clients.search')).subscribe();
+
+    expect(service.isLoadingNow('clients.search')).toBeTrue();
+
+    subscription.unsubscribe();
+    expect(service.isLoadingNow('clients.search')).toBeFalse();
+  });
+});
@@ -0,0 +1,115 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, MonoTypeOperatorFunction, Observable, defer } from 'rxjs';
+import { distinctUntilChanged, finalize, map } from 'rxjs/operators';
+
+/**
+ * Registry of in-flight operations
+ * Each key is ref-counted, so overlapping calls for the same operation only
+ * stop loading once the last one finishes, and different operations never
+ * switch each other's spinners off
+ *
+ * Keys are dot-separated, e.g. 'products.search'; asking for 'products'
+ * reports whether any products operation is running
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoadingService {
+  private readonly HTTP_KEY = 'http';
+
+  private counts$ = new BehaviorSubject<ReadonlyMap<string, number>>(new Map());
+
+  // One stream per key, so templates binding isLoading(key) with the async pipe get a stable reference
+  private streams = new Map<string, Observable<boolean>>();
+
+  /**
+   * Whether any HTTP request is in flight (drives the global progress bar)
+   */
+  get httpActive$(): Observable<boolean> {
+    return this.isLoading(this.HTTP_KEY);
+  }
+
+  /**
+   * Observe whether an operation, or any operation below a key prefix, is running
+   * @param key - Operation key, e.g. 'products.search', or a prefix such as 'products'
+   * @returns Observable<boolean>
+   */
+  isLoading(key: string): Observable<boolean> {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = this.counts$.pipe(
+        map(counts => this.isKeyActive(counts, key)),
+        distinctUntilChanged()
+      );
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Check synchronously whether an operation is running
+   * @param key - Operation key or prefix
+   */
+  isLoadingNow(key: string): boolean {
+    return this.isKeyActive(this.counts$.value, key);
+  }
+
+  /**
+   * Mark one more call of an operation as running
+   * @param key - Operation key
+   */
+  start(key: string): void {
+    const counts = new Map(this.counts$.value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    this.counts$.next(counts);
+  }
+
+  /**
+   * Mark one call of an operation as finished
+   * @param key - Operation key
+   */
+  stop(key: string): void {
+    const counts = new Map(this.counts$.value);
+    const remaining = (counts.get(key) ?? 0) - 1;
+    if (remaining > 0) {
+      counts.set(key, remaining);
+    } else {
+      counts.delete(key);
+    }
+    this.counts$.next(counts);
+  }
+
+  /**
+   * Operator that tracks an observable under a key from subscribe until complete, error or unsubscribe
+   * @param key - Operation key
+   */
+  track<T>(key: string): MonoTypeOperatorFunction<T> {
+    return source => defer(() => {
+      this.start(key);
+      return source.pipe(finalize(() => this.stop(key)));
+    });
+  }
+
+  /**
+   * Operator that tracks an HTTP request for the global progress bar
+   */
+  trackHttp<T>(): MonoTypeOperatorFunction<T> {
+    return this.track<T>(this.HTTP_KEY);
+  }
+
+  /**
+   * Check a key or any key below it as a prefix
+   */
+  private isKeyActive(counts: ReadonlyMap<string, number>, key: string): boolean {
+    if (counts.has(key)) {
+      return true;
+    }
+    const prefix = `${key}.`;
+    for (const activeKey of counts.keys()) {
+      if (activeKey.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -1,7 +1,16 @@
 import { HttpClient, HttpErrorResponse } from "@angular/common/http";
-import { Injectable } from "@angular/core";
-import { BehaviorSubject, Observable, catchError, finalize, tap, throwError, map, of } from "rxjs";
-import { OrderResponse, OrderItemForm, OrderSearchRequest } from "../models/order.model";
+import { Inject, Injectable } from "@angular/core";
+import { Observable, catchError, tap, map, of, switchMap, from, forkJoin } from "rxjs";
+import { Page } from "../models/api.model";
+import { AppConfig } from "../models/app-config.model";
+import { OrderItemForm, OrderResponse, OrderRequest, OrderSearchRequest, VoidOrderRequest } from "../models/order.model";
+import { ProductLookup } from "../models/product.model";
+import { APP_CONFIG, AppConfigService } from "./app-config.service";
+import { BaseApiService } from "./base-api.service";
+import { InventoryService } from "./inventory.service";
+import { ProductService } from "./product.service";
+import { foldOrderDiscount } from "../utils/pricing.util";
+import { createZip } from "../utils/zip.util";
 
 /**
  * Service for managing order data operations
@@ -10,71 +19,67 @@ import { OrderResponse, OrderItemForm, OrderSearchRequest } from "../models/orde
 @Injectable({
     providedIn: 'root'
 })
-export class OrderService {
-    private apiUrl = 'http://localhost:9000/orders';
-    private invoiceApiUrl = 'http://localhost:9000/invoice';
-    private productsApiUrl = 'http://localhost:9000/products';
-    
-    // Loading state management
-    private loadingSubject = new BehaviorSubject<boolean>(false);
-    public loading$ = this.loadingSubject.asObservable();
-    
-    // Error state management
-    private errorSubject = new BehaviorSubject<string>('');
-    public error$ = this.errorSubject.asObservable();
+export class OrderService extends BaseApiService<OrderResponse, OrderRequest | OrderItemForm[]> {
+    private invoiceApiUrl: string;
+    private sendOrderBody: boolean; // Post { items, discount, ... } instead of the bare item array
 
-    constructor(private http: HttpClient) {}
+    constructor(
+        http: HttpClient,
+        appConfig: AppConfigService,
+        private productService: ProductService,
+        private inventoryService: InventoryService,
+        @Inject(APP_CONFIG) config: AppConfig
+    ) {
+        super(http, appConfig, 'orders', 'Order');
+        this.invoiceApiUrl = appConfig.getEndpointUrl('invoice');
+        this.sendOrderBody = config.orders.requestBody === 'order';
+    }
 
     /**
      * Searches orders based on search criteria with pagination
      * @param searchRequest - Search criteria
      * @param page - Page number (0-based)
      * @param size - Page size
-     * @returns Observable of OrderResponse array
+     * @param sort - Optional sort, e.g. 'createdAt,desc'
+     * @returns Observable of a Page of OrderResponse
      */
-    searchOrders(searchRequest: OrderSearchRequest, page: number = 0, size: number = 10): Observable<OrderResponse[]> {
-        this.setLoading(true);
-        this.clearError();
-        
-        let params = new URLSearchParams();
-        if (searchRequest.startDate) {
-            params.append('start-date', searchRequest.startDate);
-        }
-        if (searchRequest.endDate) {
-            params.append('end-date', searchRequest.endDate);
-        }
-        if (searchRequest.orderId) {
-            params.append('order-id', searchRequest.orderId.toString());
-        }
-        params.append('page', page.toString());
-        params.append('size', size.toString());
-        
-        const url = `${this.apiUrl}?${params.toString()}`;
-        
-        return this.http.get<OrderResponse[]>(url).pipe(
-            tap(orders => {
-                console.log('Orders search completed:', orders.length);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+    searchOrders(searchRequest: OrderSearchRequest, page: number = 0, size: number = 10, sort: string | null = null): Observable<Page<OrderResponse>> {
+        return this.searchPage({
+            'start-date': searchRequest.startDate,
+            'end-date': searchRequest.endDate,
+            'order-id': searchRequest.orderId,
+            status: searchRequest.status,
+            sort
+        }, page, size);
     }
 
     /**
      * Creates a new order
-     * @param orderItems - List of order items
+     * Unless config.json asks for the order body, the bare item array is sent with the order
+     * discount moved onto the items; the tax mode and supply type are then left to the backend
+     * @param orderRequest - Order items and the optional order discount
      * @returns Observable of the created OrderResponse
      */
-    createOrder(orderItems: OrderItemForm[]): Observable<OrderResponse> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.post<OrderResponse>(this.apiUrl, orderItems).pipe(
-            tap(newOrder => {
-                console.log('Order created successfully:', newOrder);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
+    createOrder(orderRequest: OrderRequest): Observable<OrderResponse> {
+        if (this.sendOrderBody) {
+            return this.create(orderRequest);
+        }
+        return this.create(foldOrderDiscount(orderRequest.items, orderRequest.discount));
+    }
+
+    /**
+     * Voids an order that has not been invoiced
+     * The backend records the reason, the user and the time for the audit trail
+     * @param orderId - Order ID
+     * @param reason - Why the order is voided
+     * @returns Observable of the voided OrderResponse
+     */
+    voidOrder(orderId: number, reason: string): Observable<OrderResponse> {
+        const body: VoidOrderRequest = { reason };
+        return this.request(this.http.post<OrderResponse>(this.buildUrl(`/${orderId}/void`), body), 'void').pipe(
+            tap(order => {
+                console.log('Order voided:', order.id);
+            })
         );
     }
 
@@ -84,33 +89,24 @@ export class OrderService {
      * @returns Observable of OrderResponse
      */
     getOrderById(id: number): Observable<OrderResponse> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.get<OrderResponse>(`${this.apiUrl}/${id}/order-items`).pipe(
-            tap(order => {
-                console.log('Order details retrieved:', order);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
-        );
+        return this.get(id, '/order-items');
     }
 
     /**
-     * Validates barcode existence in the backend
-     * @param barcode - Barcode to validate
-     * @returns Observable of boolean indicating if barcode exists
+     * Looks up the product sold under a barcode, with its available stock
+     * @param barcode - Barcode to look up
+     * @returns Observable of the product, or null if no product has this barcode
      */
-    validateBarcode(barcode: string): Observable<boolean> {
-        this.clearError();
-        
-        const url = `${this.productsApiUrl}/check/${barcode}`;
-        
-        return this.http.get<boolean>(url).pipe(
-            tap(isValid => {
-                console.log('Barcode validation result:', isValid);
-            }),
-            catchError(this.handleError.bind(this))
+    lookupBarcode(barcode: string): Observable<ProductLookup | null> {
+        return this.productService.getProductByBarcode(barcode).pipe(
+            switchMap(product => {
+                if (!product) {
+                    return of(null);
+                }
+                return this.inventoryService.getAvailableQuantity(product.id, product.barcode).pipe(
+                    map(availableQuantity => ({ ...product, availableQuantity }))
+                );
+            })
         );
     }
 
@@ -120,17 +116,14 @@ export class OrderService {
      * @returns Observable of invoice generation response
      */
     generateInvoice(orderId: number): Observable<string> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.get(`${this.invoiceApiUrl}/generate-invoice/${orderId}`, { 
+        const request$ = this.http.get(`${this.invoiceApiUrl}/generate-invoice/${orderId}`, { 
             responseType: 'text' 
-        }).pipe(
+        });
+        
+        return this.request(request$, 'invoice').pipe(
             tap(response => {
                 console.log('Invoice generated successfully:', response);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
+            })
         );
     }
 
@@ -160,104 +153,53 @@ export class OrderService {
         );
     }
 
+    /**
+     * Fetches the invoice PDF of an order without saving it
+     * @param orderId - Order ID
+     * @returns Observable of the invoice blob
+     */
+    fetchInvoice(orderId: number): Observable<Blob> {
+        const request$ = this.http.get(`${this.invoiceApiUrl}/get-invoice/${orderId}`, { 
+            responseType: 'blob' 
+        });
+        
+        return this.request(request$, 'invoice-download');
+    }
+
     /**
      * Downloads invoice for an order
      * @param orderId - Order ID
      * @returns Observable of blob for file download
      */
     downloadInvoice(orderId: number): Observable<Blob> {
-        this.setLoading(true);
-        this.clearError();
-        
-        return this.http.get(`${this.invoiceApiUrl}/get-invoice/${orderId}`, { 
-            responseType: 'blob' 
-        }).pipe(
+        return this.fetchInvoice(orderId).pipe(
             tap(blob => {
                 console.log('Invoice downloaded successfully');
-                // Create download link
-                const url = window.URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = `invoice_${orderId}.pdf`;
-                link.click();
-                window.URL.revokeObjectURL(url);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
+                this.downloadBlob(blob, `invoice_${orderId}.pdf`);
+            })
         );
     }
 
     /**
-     * Handles HTTP errors and sets error state
-     * @param error - HTTP error response
-     * @returns Observable that throws the error
+     * Saves fetched invoices as one ZIP file, built in the browser
+     * @param invoices - Invoice PDFs by order
+     * @param filename - Name of the ZIP file
+     * @returns Observable that completes once the file is saved
      */
-    private handleError(error: HttpErrorResponse): Observable<never> {
-        let errorMessage = 'An unexpected error occurred';
-        
-        // Don't handle 401 errors here - they're handled by the interceptor
-        if (error.status === 401) {
-            return throwError(() => error);
+    downloadInvoicesAsZip(invoices: { orderId: number; blob: Blob }[], filename: string): Observable<void> {
+        if (invoices.length === 0) {
+            return of(undefined);
         }
-        
-        if (error.error instanceof ErrorEvent) {
-            // Client-side error
-            errorMessage = `Client Error: ${error.error.message}`;
-        } else {
-            // Check if it's a structured error response from backend
-            if (error.error && typeof error.error === 'object' && error.error.message) {
-                // Extract the exact message from backend structured error
-                errorMessage = error.error.message;
-            } else if (error.error && typeof error.error === 'string') {
-                // If error is a string, use it directly
-                errorMessage = error.error;
-            } else {
-                // Fallback to generic server error
-                errorMessage = `Server Error: ${error.status} - ${error.message}`;
-                
-                if (error.status === 404) {
-                    errorMessage = 'Resource not found';
-                } else if (error.status === 500) {
-                    errorMessage = 'Internal server error';
-                } else if (error.status === 0) {
-                    errorMessage = 'Unable to connect to server';
-                }
-            }
-        }
-        
-        console.error('API Error:', error);
-        this.setError(errorMessage);
-        
-        return throwError(() => new Error(errorMessage));
-    }
-
-    /**
-     * Sets the loading state
-     * @param loading - Whether the service is loading
-     */
-    private setLoading(loading: boolean): void {
-        this.loadingSubject.next(loading);
-    }
-
-    /**
-     * Sets the error message
-     * @param error - Error message to display
-     */
-    private setError(error: string): void {
-        this.errorSubject.next(error);
-    }
 
-    /**
-     * Clears the current error state
-     */
-    private clearError(): void {
-        this.errorSubject.next('');
-    }
-
-    /**
-     * Manually clear error state (public method for components)
-     */
-    public clearErrorState(): void {
-        this.clearError();
+        return forkJoin(invoices.map(invoice => from(invoice.blob.arrayBuffer()))).pipe(
+            map(buffers => createZip(buffers.map((buffer, index) => ({
+                name: `invoice_${invoices[index].orderId}.pdf`,
+                data: new Uint8Array(buffer)
+            })))),
+            map(zip => {
+                this.downloadBlob(new Blob([zip], { type: 'application/zip' }), filename);
+                console.log(`${invoices.length} invoices downloaded as ${filename}`);
+            })
+        );
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { OrderPayment } from '../models/payment.model';
+
+/**
+ * Where order payments are kept, keyed by order ID
+ * The backend has no payments endpoint yet, so the default is LocalPaymentStore;
+ * a backend store can replace it with `{ provide: PaymentStore, useClass: ... }` in app.config.ts
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: () => inject(LocalPaymentStore)
+})
+export abstract class PaymentStore {
+  /**
+   * Gets the payments of several orders
+   * @param orderIds - Order IDs
+   * @returns Observable of payments by order ID; unpaid orders are left out
+   */
+  abstract getPayments(orderIds: number[]): Observable<{ [orderId: number]: OrderPayment }>;
+
+  /**
+   * Saves the payment of an order
+   * @param payment - Payment, carrying its order ID
+   * @returns Observable of the saved payment
+   */
+  abstract savePayment(payment: OrderPayment): Observable<OrderPayment>;
+}
+
+/**
+ * Stand-in payment store that keeps payments in this browser's localStorage
+ * Payments are not seen on other terminals and are lost when storage is cleared
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalPaymentStore extends PaymentStore {
+  private readonly STORAGE_KEY = 'order-payments';
+
+  getPayments(orderIds: number[]): Observable<{ [orderId: number]: OrderPayment }> {
+    const payments = this.readPayments();
+    const result: { [orderId: number]: OrderPayment } = {};
+    orderIds.forEach(id => {
+      if (payments[id]) {
+        result[id] = payments[id];
+      }
+    });
+    return of(result);
+  }
+
+  savePayment(payment: OrderPayment): Observable<OrderPayment> {
+    const payments = this.readPayments();
+    payments[payment.orderId] = payment;
+    this.writePayments(payments);
+    return of(payment);
+  }
+
+  private readPayments(): { [orderId: number]: OrderPayment } {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('Error reading payments from localStorage:', error);
+      return {};
+    }
+  }
+
+  private writePayments(payments: { [orderId: number]: OrderPayment }): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(payments));
+    } catch (error) {
+      console.error('Error saving payments to localStorage:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { PaymentService } from './payment.service';
+import { PaymentStore } from './payment-store.service';
+import { OrderPayment } from '../models/payment.model';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PaymentService);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should record a split payment with change and read it back', () => {
+    let recorded: OrderPayment | undefined;
+    service.recordPayment(12, [
+      { method: 'UPI', amount: 150, reference: ' 4107 ' },
+      { method: 'CASH', amount: 100 }
+    ], 220).subscribe(payment => recorded = payment);
+
+    expect(recorded?.tenders).toEqual([
+      { method: 'UPI', amount: 150, reference: '4107' },
+      { method: 'CASH', amount: 100 }
+    ]);
+    expect(recorded?.change).toBe(30);
+
+    service.getPayments([12, 13]).subscribe(payments => {
+      expect(Object.keys(payments)).toEqual(['12']);
+      expect(payments[12]).toEqual(recorded!);
+    });
+  });
+
+  it('should reject tenders that do not settle the order and paying twice', () => {
+    let error: Error | undefined;
+    service.recordPayment(5, [{ method: 'CARD', amount: 80 }], 100).subscribe({ error: e => error = e });
+    expect(error?.message).toBe('₹20.00 is still to be paid');
+
+    service.recordPayment(5, [{ method: 'CARD', amount: 100 }], 100).subscribe();
+    service.recordPayment(5, [{ method: 'CASH', amount: 100 }], 100).subscribe({ error: e => error = e });
+    expect(error?.message).toBe('Order #5 is already paid');
+  });
+
+  it('should keep payments in a provided store instead of localStorage', () => {
+    const saved: OrderPayment[] = [];
+    const store: PaymentStore = {
+      getPayments: () => of({}),
+      savePayment: payment => {
+        saved.push(payment);
+        return of(payment);
+      }
+    };
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [{ provide: PaymentStore, useValue: store }] });
+
+    TestBed.inject(PaymentService).recordPayment(7, [{ method: 'CARD', amount: 90 }], 90).subscribe();
+
+    expect(saved.map(payment => payment.orderId)).toEqual([7]);
+    expect(localStorage.getItem('order-payments')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { Injectable } from '@angular/core';
+import { Observable, switchMap, throwError } from 'rxjs';
+import { OrderPayment, PaymentTender } from '../models/payment.model';
+import { PaymentStore } from './payment-store.service';
+import { getTenderError, summarizeTenders } from '../utils/payment.util';
+import { roundCurrency } from '../utils/pricing.util';
+
+/**
+ * Payments taken for orders
+ * Checks the tenders and keeps one payment per order in the PaymentStore
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PaymentService {
+
+  constructor(private paymentStore: PaymentStore) {}
+
+  /**
+   * Records how an order was paid
+   * @param orderId - Order ID
+   * @param tenders - Tenders that settle the order
+   * @param amountDue - Order total
+   * @returns Observable of the recorded payment; errors when the tenders do not settle the order
+   */
+  recordPayment(orderId: number, tenders: PaymentTender[], amountDue: number): Observable<OrderPayment> {
+    const error = getTenderError(tenders, amountDue);
+    if (error) {
+      return throwError(() => new Error(error));
+    }
+
+    const payment: OrderPayment = {
+      orderId,
+      tenders: tenders.map(tender => ({
+        method: tender.method,
+        amount: roundCurrency(tender.amount),
+        ...(tender.reference?.trim() ? { reference: tender.reference.trim() } : {})
+      })),
+      amountDue: roundCurrency(amountDue),
+      change: summarizeTenders(tenders, amountDue).change,
+      paidAt: new Date().toISOString()
+    };
+    return this.paymentStore.getPayments([orderId]).pipe(
+      switchMap(payments => payments[orderId]
+        ? throwError(() => new Error(`Order #${orderId} is already paid`))
+        : this.paymentStore.savePayment(payment))
+    );
+  }
+
+  /**
+   * Gets the payments of several orders
+   * @param orderIds - Order IDs
+   * @returns Observable of payments by order ID; unpaid orders are left out
+   */
+  getPayments(orderIds: number[]): Observable<{ [orderId: number]: OrderPayment }> {
+    return this.paymentStore.getPayments(orderIds);
+  }
+}
@@ -0,0 +1,109 @@
+import { HttpClient } from "@angular/common/http";
+import { Inject, Injectable } from "@angular/core";
+import { BehaviorSubject, Observable, catchError, distinctUntilChanged, filter, map, of, switchMap, tap } from "rxjs";
+import { AppConfig } from "../models/app-config.model";
+import { Role } from "../models/auth.model";
+import { PermissionAction, PermissionMatrix, PermissionResource } from "../models/permission.model";
+import { APP_CONFIG, AppConfigService } from "./app-config.service";
+import { AuthService } from "./auth.service";
+
+/**
+ * Built-in permission matrix, used unless config.json or the backend supplies one
+ */
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+    [Role.SUPERVISOR]: {
+        users: ['view', 'edit'],
+        clients: ['view', 'create', 'edit'],
+        products: ['view', 'create', 'edit', 'upload'],
+        inventory: ['view', 'edit', 'upload'],
+        orders: ['view', 'create', 'void'],
+        invoices: ['view', 'generate'],
+        reports: ['view'],
+        returns: ['view', 'create']
+    },
+    [Role.OPERATOR]: {
+        clients: ['view'],
+        products: ['view'],
+        inventory: ['view'],
+        orders: ['view', 'create'],
+        invoices: ['view', 'generate']
+    }
+};
+
+/**
+ * Service that owns the role permission matrix
+ * Loads it from config.json or the backend and answers role/resource/action lookups
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PermissionService {
+    private permissionsUrl: string;
+    private matrixSubject: BehaviorSubject<PermissionMatrix>;
+    public matrix$: Observable<PermissionMatrix>;
+    private matrixLoadedSubject: BehaviorSubject<boolean>;
+    public matrixLoaded$: Observable<boolean>; // False while the backend matrix for the signed-in user is loading
+
+    constructor(
+        private http: HttpClient,
+        private authService: AuthService,
+        appConfig: AppConfigService,
+        @Inject(APP_CONFIG) config: AppConfig
+    ) {
+        this.permissionsUrl = `${appConfig.getEndpointUrl('auth')}/permissions`;
+
+        const settings = config.permissions;
+        this.matrixSubject = new BehaviorSubject<PermissionMatrix>(settings.matrix ?? DEFAULT_PERMISSION_MATRIX);
+        this.matrix$ = this.matrixSubject.asObservable();
+        this.matrixLoadedSubject = new BehaviorSubject<boolean>(settings.source !== 'backend');
+        this.matrixLoaded$ = this.matrixLoadedSubject.asObservable();
+
+        if (settings.source === 'backend') {
+            this.loadFromBackendOnLogin();
+        }
+    }
+
+    /**
+     * Gets the current permission matrix
+     * @returns PermissionMatrix
+     */
+    get matrix(): PermissionMatrix {
+        return this.matrixSubject.value;
+    }
+
+    /**
+     * Checks whether a role may perform an action on a resource
+     * @param role - Role name
+     * @param resource - Resource, e.g. 'inventory'
+     * @param action - Action, e.g. 'edit'
+     * @returns True if the matrix grants the action
+     */
+    roleHasPermission(role: string, resource: PermissionResource, action: PermissionAction): boolean {
+        return this.matrixSubject.value[role]?.[resource]?.includes(action) ?? false;
+    }
+
+    /**
+     * Fetches the matrix from the backend whenever a user signs in
+     * Keeps the configured matrix if the request fails; either way the matrix counts as loaded afterwards
+     */
+    private loadFromBackendOnLogin(): void {
+        this.authService.authState.pipe(
+            map(authState => authState.user?.id ?? null),
+            distinctUntilChanged(),
+            filter(userId => userId !== null),
+            tap(() => this.matrixLoadedSubject.next(false)),
+            switchMap(() => this.http.get<PermissionMatrix>(this.permissionsUrl).pipe(
+                catchError(error => {
+                    console.warn('Could not load permissions from backend, using configured matrix:', error);
+                    return of(null);
+                })
+            ))
+        ).subscribe(matrix => {
+            if (matrix) {
+                console.log('Permissions loaded successfully for roles:', Object.keys(matrix));
+                this.matrixSubject.next(matrix);
+            }
+            this.matrixLoadedSubject.next(true);
+        });
+    }
+}
@@ -0,0 +1,39 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { ReportService } from './report.service';
+import { DaySalesResponse } from '../models/report.model';
+
+describe('ReportService', () => {
+  let service: ReportService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(ReportService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should ask for day sales without voided orders', () => {
+    const day: DaySalesResponse = { date: '2024-01-15', invoicedOrdersCount: 3, invoicedItemsCount: 7, totalRevenue: 1250 };
+    let report: DaySalesResponse[] | undefined;
+
+    service.getDaySalesReport({ startDate: '2024-01-01', endDate: '2024-01-31' }).subscribe(result => report = result);
+
+    const request = httpMock.expectOne(req => req.url.includes('/reports/day-sales'));
+    const params = new URL(request.request.urlWithParams).searchParams;
+    expect(params.get('startDate')).toBe('2024-01-01');
+    expect(params.get('endDate')).toBe('2024-01-31');
+    expect(params.get('excludeStatus')).toBe('VOIDED');
+
+    request.flush([day]);
+    expect(report).toEqual([day]);
+  });
+});
@@ -1,7 +1,10 @@
-import { HttpClient, HttpErrorResponse } from "@angular/common/http";
+import { HttpClient } from "@angular/common/http";
 import { Injectable } from "@angular/core";
-import { BehaviorSubject, Observable, catchError, finalize, tap, throwError } from "rxjs";
+import { Observable, tap } from "rxjs";
+import { OrderStatus } from "../models/order.model";
 import { DaySalesResponse, ReportRequest } from "../models/report.model";
+import { AppConfigService } from "./app-config.service";
+import { BaseApiService } from "./base-api.service";
 
 /**
  * Service for managing report data operations
@@ -10,38 +13,28 @@ import { DaySalesResponse, ReportRequest } from "../models/report.model";
 @Injectable({
     providedIn: 'root'
 })
-export class ReportService {
-    private apiUrl = 'http://localhost:9000/reports';
-    
-    // Loading state management
-    private loadingSubject = new BehaviorSubject<boolean>(false);
-    public loading$ = this.loadingSubject.asObservable();
-    
-    // Error state management
-    private errorSubject = new BehaviorSubject<string>('');
-    public error$ = this.errorSubject.asObservable();
-
-    constructor(private http: HttpClient) {}
+export class ReportService extends BaseApiService<DaySalesResponse, never> {
+    constructor(http: HttpClient, appConfig: AppConfigService) {
+        super(http, appConfig, 'reports', 'Report');
+    }
 
     /**
      * Gets day sales report for a date range
+     * Voided orders are explicitly excluded from the figures
      * @param request - Report request with start and end dates
      * @returns Observable of DaySalesResponse array
      */
     getDaySalesReport(request: ReportRequest): Observable<DaySalesResponse[]> {
-        this.setLoading(true);
-        this.clearError();
+        const url = this.buildUrl('/day-sales', {
+            startDate: request.startDate,
+            endDate: request.endDate,
+            excludeStatus: OrderStatus.VOIDED
+        });
         
-        const params = new URLSearchParams();
-        params.append('startDate', request.startDate);
-        params.append('endDate', request.endDate);
-        
-        return this.http.get<DaySalesResponse[]>(`${this.apiUrl}/day-sales?${params.toString()}`).pipe(
+        return this.request(this.http.get<DaySalesResponse[]>(url), 'day-sales').pipe(
             tap(report => {
                 console.log('Day sales report generated:', report.length);
-            }),
-            catchError(this.handleError.bind(this)),
-            finalize(() => this.setLoading(false))
+            })
         );
     }
 
@@ -128,78 +121,4 @@ export class ReportService {
             return 'Invalid Date';
         }
     }
-
-    /**
-     * Handles HTTP errors and sets error state
-     * @param error - HTTP error response
-     * @returns Observable that throws the error
-     */
-    private handleError(error: HttpErrorResponse): Observable<never> {
-        let errorMessage = 'An unexpected error occurred';
-        
-        // Don't handle 401 errors here - they're handled by the interceptor
-        if (error.status === 401) {
-            return throwError(() => error);
-        }
-        
-        if (error.error instanceof ErrorEvent) {
-            // Client-side error
-            errorMessage = `Client Error: ${error.error.message}`;
-        } else {
-            // Check if it's a structured error response from backend
-            if (error.error && typeof error.error === 'object' && error.error.message) {
-                // Extract the exact message from backend structured error
-                errorMessage = error.error.message;
-            } else if (error.error && typeof error.error === 'string') {
-                // If error is a string, use it directly
-                errorMessage = error.error;
-            } else {
-                // Fallback to generic server error
-                errorMessage = `Server Error: ${error.status} - ${error.message}`;
-                
-                if (error.status === 404) {
-                    errorMessage = 'Report not found';
-                } else if (error.status === 500) {
-                    errorMessage = 'Internal server error';
-                } else if (error.status === 0) {
-                    errorMessage = 'Unable to connect to server';
-                }
-            }
-        }
-        
-        console.error('API Error:', error);
-        this.setError(errorMessage);
-        
-        return throwError(() => new Error(errorMessage));
-    }
-
-    /**
-     * Sets the loading state
-     * @param loading - Whether the service is loading
-     */
-    private setLoading(loading: boolean): void {
-        this.loadingSubject.next(loading);
-    }
-
-    /**
-     * Sets the error message
-     * @param error - Error message to display
-     */
-    private setError(error: string): void {
-        this.errorSubject.next(error);
-    }
-
-    /**
-     * Clears the current error state
-     */
-    private clearError(): void {
-        this.errorSubject.next('');
-    }
-
-    /**
-     * Manually clear error state (public method for components)
-     */
-    public clearErrorState(): void {
-        this.clearError();
-    }
-} 
\ No newline at end of file
+}
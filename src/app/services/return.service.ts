@@ -0,0 +1,54 @@
+import { HttpClient } from "@angular/common/http";
+import { Injectable } from "@angular/core";
+import { Observable, tap } from "rxjs";
+import { ReturnRequest, ReturnResponse } from "../models/return.model";
+import { AppConfigService } from "./app-config.service";
+import { BaseApiService } from "./base-api.service";
+
+/**
+ * Service for returns against existing orders
+ * Creating a return restocks inventory and issues a credit note on the backend
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ReturnService extends BaseApiService<ReturnResponse, ReturnRequest> {
+    constructor(http: HttpClient, appConfig: AppConfigService) {
+        super(http, appConfig, 'returns', 'Return');
+    }
+
+    /**
+     * Gets the returns made against an order
+     * @param orderId - Order ID
+     * @returns Observable of the order's returns
+     */
+    getReturnsForOrder(orderId: number): Observable<ReturnResponse[]> {
+        return this.search({ 'order-id': orderId }, 0, 100);
+    }
+
+    /**
+     * Returns items of an order
+     * @param returnRequest - Items, quantities and reason
+     * @returns Observable of the created return with its credit note number
+     */
+    createReturn(returnRequest: ReturnRequest): Observable<ReturnResponse> {
+        return this.create(returnRequest);
+    }
+
+    /**
+     * Downloads the credit note of a return
+     * @param returnId - Return ID
+     * @returns Observable of blob for file download
+     */
+    downloadCreditNote(returnId: number): Observable<Blob> {
+        const request$ = this.http.get(this.buildUrl(`/${returnId}/credit-note`), {
+            responseType: 'blob'
+        });
+
+        return this.request(request$, 'credit-note').pipe(
+            tap(blob => {
+                this.downloadBlob(blob, `credit_note_${returnId}.pdf`);
+            })
+        );
+    }
+}
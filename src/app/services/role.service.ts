@@ -1,18 +1,27 @@
-import { Injectable } from '@angular/core';
-import { Observable, map } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { Observable, combineLatest, distinctUntilChanged, map } from 'rxjs';
+import { APP_CONFIG } from './app-config.service';
 import { AuthService } from './auth.service';
+import { PermissionService } from './permission.service';
+import { AppConfig } from '../models/app-config.model';
 import { Role, UserResponse } from '../models/auth.model';
+import { Permission, PermissionAction, PermissionResource } from '../models/permission.model';
 
 /**
  * Service for role-based access control and UI restrictions
- * Provides methods to check user permissions for different actions
+ * Provides methods to check user permissions for different actions,
+ * all answered from the role permission matrix held by PermissionService
  */
 @Injectable({
   providedIn: 'root'
 })
 export class RoleService {
 
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {}
 
   /**
    * Get current user
@@ -34,6 +43,16 @@ export class RoleService {
     );
   }
 
+  /**
+   * Largest discount the current user may give, from the configured role caps
+   * @returns Percentage from 0 to 100
+   */
+  getMaxDiscountPercent(): number {
+    const role = this.authService.currentUser?.role;
+    const cap = role ? this.config.discounts.maxPercentByRole[role] : undefined;
+    return Math.min(Math.max(Number(cap) || 0, 0), 100);
+  }
+
   /**
    * Check if current user is an operator
    * @returns Observable<boolean>
@@ -47,56 +66,84 @@ export class RoleService {
   }
 
   /**
-   * Check if current user can add/create resources
-   * Only supervisors can add products, clients, or upload inventory
+   * Check if current user may perform an action on a resource
+   * Re-evaluates when the user or the permission matrix changes
+   * @param resource - Resource, e.g. 'inventory'
+   * @param action - Action, e.g. 'edit'
+   * @returns Observable<boolean>
+   */
+  hasPermission(resource: PermissionResource, action: PermissionAction): Observable<boolean> {
+    return combineLatest([this.authService.authState, this.permissionService.matrix$]).pipe(
+      map(([authState]) => {
+        return !!authState.user && this.permissionService.roleHasPermission(authState.user.role, resource, action);
+      }),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Check if current user has a permission written as `resource:action`
+   * @param permission - Permission, e.g. 'inventory:edit'
+   * @returns Observable<boolean>
+   */
+  can(permission: Permission): Observable<boolean> {
+    const [resource, action] = this.parsePermission(permission);
+    return this.hasPermission(resource, action);
+  }
+
+  /**
+   * Check if a role is granted a permission (synchronous, used by RoleGuard)
+   * @param role - Role to check
+   * @param permission - Permission in `resource:action` form
+   * @returns boolean
+   */
+  roleHasPermission(role: string, permission: Permission): boolean {
+    const [resource, action] = this.parsePermission(permission);
+    return this.permissionService.roleHasPermission(role, resource, action);
+  }
+
+  /**
+   * Check if current user can add/create a resource
+   * @param resource - Resource to create, e.g. 'clients'
    * @returns Observable<boolean>
    */
-  canCreate(): Observable<boolean> {
-    return this.isSupervisor();
+  canCreate(resource: PermissionResource): Observable<boolean> {
+    return this.hasPermission(resource, 'create');
   }
 
   /**
-   * Check if current user can upload files
-   * Only supervisors can upload inventory or product files
+   * Check if current user can upload files for a resource
+   * @param resource - Resource to upload, e.g. 'inventory'
    * @returns Observable<boolean>
    */
-  canUpload(): Observable<boolean> {
-    return this.isSupervisor();
+  canUpload(resource: PermissionResource): Observable<boolean> {
+    return this.hasPermission(resource, 'upload');
   }
 
   /**
    * Check if current user can view reports
-   * Only supervisors can access reports
    * @returns Observable<boolean>
    */
   canViewReports(): Observable<boolean> {
-    return this.isSupervisor();
+    return this.can('reports:view');
   }
 
   /**
-   * Check if current user can edit resources
-   * Both supervisors and operators can edit (but operators have limited access)
+   * Check if current user can edit a resource
+   * @param resource - Resource to edit, e.g. 'products'
    * @returns Observable<boolean>
    */
-  canEdit(): Observable<boolean> {
-    return this.authService.authState.pipe(
-      map(authState => {
-        return authState.user?.role === Role.SUPERVISOR || authState.user?.role === Role.OPERATOR;
-      })
-    );
+  canEdit(resource: PermissionResource): Observable<boolean> {
+    return this.hasPermission(resource, 'edit');
   }
 
   /**
-   * Check if current user can view a specific resource
-   * Both supervisors and operators can view most resources
+   * Check if current user can view a resource
+   * @param resource - Resource to view, e.g. 'orders'
    * @returns Observable<boolean>
    */
-  canView(): Observable<boolean> {
-    return this.authService.authState.pipe(
-      map(authState => {
-        return authState.user?.role === Role.SUPERVISOR || authState.user?.role === Role.OPERATOR;
-      })
-    );
+  canView(resource: PermissionResource): Observable<boolean> {
+    return this.hasPermission(resource, 'view');
   }
 
   /**
@@ -117,6 +164,14 @@ export class RoleService {
     }
   }
 
+  /**
+   * Split a `resource:action` permission into its parts
+   */
+  private parsePermission(permission: Permission): [PermissionResource, PermissionAction] {
+    const [resource, action] = permission.split(':');
+    return [resource as PermissionResource, action as PermissionAction];
+  }
+
   /**
    * Check if current user has a specific role
    * @param role - Role to check
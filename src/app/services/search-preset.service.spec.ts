@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SearchPresetService } from './search-preset.service';
+import { AuthService } from './auth.service';
+
+describe('SearchPresetService', () => {
+  let service: SearchPresetService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: { currentUser: { id: 7 } } }]
+    });
+    service = TestBed.inject(SearchPresetService);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should keep presets separate per page', () => {
+    service.savePreset('products', 'Milk', { productName: 'milk' });
+
+    expect(service.getPresets('products').map(preset => preset.name)).toEqual(['Milk']);
+    expect(service.getPresets('inventory')).toEqual([]);
+  });
+
+  it('should replace a preset saved again under the same name', () => {
+    const first = service.savePreset('products', 'Milk', { productName: 'milk' });
+    const second = service.savePreset('products', 'milk', { productName: 'whole milk' });
+
+    const presets = service.getPresets('products');
+    expect(presets.length).toBe(1);
+    expect(second.id).toBe(first.id);
+    expect(presets[0].criteria).toEqual({ productName: 'whole milk' });
+  });
+
+  it('should clear the default when the default preset is deleted', () => {
+    const preset = service.savePreset('inventory', 'Low stock', { barcode: 'LS' });
+    service.setDefaultPreset('inventory', preset.id);
+    expect(service.getDefaultPreset('inventory')?.id).toBe(preset.id);
+
+    service.deletePreset('inventory', preset.id);
+    expect(service.getDefaultPreset('inventory')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@angular/core';
+import { SearchCriteria } from '../components/shared/search-panel/search-panel.component';
+import { SearchPreset, SearchPresetStore } from '../models/search-preset.model';
+import { UserPreferencesService } from './user-preferences.service';
+
+/**
+ * Saved search presets, keyed by page and stored per user
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchPresetService {
+  constructor(private preferences: UserPreferencesService) {}
+
+  /**
+   * Gets the saved presets of a page, sorted by name
+   * @param pageKey - Page the presets belong to, e.g. 'products'
+   * @returns Saved presets
+   */
+  getPresets(pageKey: string): SearchPreset[] {
+    return [...this.read(pageKey).presets].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Saves criteria under a name; a preset with the same name (ignoring case) is replaced
+   * @param pageKey - Page the preset belongs to
+   * @param name - Preset name
+   * @param criteria - Search criteria to save
+   * @returns The saved preset
+   */
+  savePreset(pageKey: string, name: string, criteria: SearchCriteria): SearchPreset {
+    const store = this.read(pageKey);
+    const trimmedName = name.trim();
+    const existing = store.presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+
+    const preset: SearchPreset = {
+      id: existing?.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: trimmedName,
+      criteria: { ...criteria },
+      createdAt: Date.now()
+    };
+
+    store.presets = [...store.presets.filter(saved => saved.id !== preset.id), preset];
+    this.write(pageKey, store);
+    return preset;
+  }
+
+  /**
+   * Deletes a preset, clearing the page default if it pointed to it
+   * @param pageKey - Page the preset belongs to
+   * @param id - Preset ID
+   */
+  deletePreset(pageKey: string, id: string): void {
+    const store = this.read(pageKey);
+    store.presets = store.presets.filter(preset => preset.id !== id);
+    if (store.defaultId === id) {
+      store.defaultId = null;
+    }
+    this.write(pageKey, store);
+  }
+
+  /**
+   * Gets the preset applied when the page opens without search criteria
+   * @param pageKey - Page to check
+   * @returns Default preset, or null if none is set
+   */
+  getDefaultPreset(pageKey: string): SearchPreset | null {
+    const store = this.read(pageKey);
+    return store.presets.find(preset => preset.id === store.defaultId) ?? null;
+  }
+
+  /**
+   * Makes a preset the page default, or clears the default
+   * @param pageKey - Page the preset belongs to
+   * @param id - Preset ID, or null to clear
+   */
+  setDefaultPreset(pageKey: string, id: string | null): void {
+    const store = this.read(pageKey);
+    store.defaultId = id && store.presets.some(preset => preset.id === id) ? id : null;
+    this.write(pageKey, store);
+  }
+
+  private read(pageKey: string): SearchPresetStore {
+    const store = this.preferences.get<SearchPresetStore | null>(this.storageKey(pageKey), null);
+    return {
+      presets: Array.isArray(store?.presets) ? store.presets : [],
+      defaultId: store?.defaultId ?? null
+    };
+  }
+
+  private write(pageKey: string, store: SearchPresetStore): void {
+    this.preferences.set(this.storageKey(pageKey), store);
+  }
+
+  private storageKey(pageKey: string): string {
+    return `search-presets:${pageKey}`;
+  }
+}
@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+
+import { UserPreferencesService } from './user-preferences.service';
+import { AuthService } from './auth.service';
+
+describe('UserPreferencesService', () => {
+  let service: UserPreferencesService;
+  let authStub: { currentUser: { id: number } | null };
+
+  beforeEach(() => {
+    localStorage.clear();
+    authStub = { currentUser: { id: 1 } };
+    TestBed.configureTestingModule({
+      providers: [{ provide: AuthService, useValue: authStub }]
+    });
+    service = TestBed.inject(UserPreferencesService);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should keep preferences separate per user', () => {
+    service.set('table-columns:products', ['mrp']);
+
+    authStub.currentUser = { id: 2 };
+    expect(service.get<string[]>('table-columns:products', [])).toEqual([]);
+
+    authStub.currentUser = { id: 1 };
+    expect(service.get<string[]>('table-columns:products', [])).toEqual(['mrp']);
+  });
+
+  it('should return the fallback for unreadable values', () => {
+    localStorage.setItem('prefs:1:broken', '{not json');
+    expect(service.get('broken', 'fallback')).toBe('fallback');
+  });
+
+  it('should not store anything when nobody is signed in', () => {
+    authStub.currentUser = null;
+    service.set('key', 'value');
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { AuthService } from './auth.service';
+
+/**
+ * Per-user UI preferences kept in localStorage
+ * Keys are scoped to the signed-in user so people sharing a terminal keep their own settings
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UserPreferencesService {
+  private readonly KEY_PREFIX = 'prefs';
+
+  constructor(private authService: AuthService) {}
+
+  /**
+   * Reads a preference of the current user
+   * @param key - Preference key, e.g. 'table-columns:products'
+   * @param fallback - Value when nothing is stored or the stored value is unreadable
+   * @returns Stored value or the fallback
+   */
+  get<T>(key: string, fallback: T): T {
+    const storageKey = this.storageKey(key);
+    if (!storageKey) {
+      return fallback;
+    }
+
+    try {
+      const saved = localStorage.getItem(storageKey);
+      return saved !== null ? JSON.parse(saved) as T : fallback;
+    } catch (error) {
+      console.error('Error reading preference from localStorage:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Stores a preference of the current user; ignored when nobody is signed in
+   * @param key - Preference key
+   * @param value - JSON-serialisable value
+   */
+  set<T>(key: string, value: T): void {
+    const storageKey = this.storageKey(key);
+    if (!storageKey) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(value));
+    } catch (error) {
+      console.error('Error saving preference to localStorage:', error);
+    }
+  }
+
+  /**
+   * Removes a preference of the current user
+   * @param key - Preference key
+   */
+  remove(key: string): void {
+    const storageKey = this.storageKey(key);
+    if (storageKey) {
+      localStorage.removeItem(storageKey);
+    }
+  }
+
+  /**
+   * Builds the localStorage key for the current user
+   * @returns Storage key, or null when nobody is signed in
+   */
+  private storageKey(key: string): string | null {
+    const user = this.authService.currentUser;
+    return user ? `${this.KEY_PREFIX}:${user.id}:${key}` : null;
+  }
+}
@@ -0,0 +1,97 @@
+import { HttpClient } from "@angular/common/http";
+import { Injectable } from "@angular/core";
+import { Observable, tap } from "rxjs";
+import { Page } from "../models/api.model";
+import { Role, UserResponse } from "../models/auth.model";
+import { UserRoleUpdateRequest } from "../models/user.model";
+import { AppConfigService } from "./app-config.service";
+import { BaseApiService } from "./base-api.service";
+
+/**
+ * Service for managing user accounts (supervisors only)
+ * Handles listing, role changes, activation and forced password resets
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class UserService extends BaseApiService<UserResponse, never> {
+    constructor(http: HttpClient, appConfig: AppConfigService) {
+        super(http, appConfig, 'users', 'User');
+    }
+
+    /**
+     * Retrieves users from the API with pagination
+     * @param page - Page number (0-based)
+     * @param size - Page size
+     * @returns Observable of a Page of users
+     */
+    getUsers(page: number = 0, size: number = 10): Observable<Page<UserResponse>> {
+        return this.searchPage({}, page, size);
+    }
+
+    /**
+     * Searches users by name or email with pagination
+     * @param query - Name or email fragment to search for
+     * @param page - Page number (0-based)
+     * @param size - Page size
+     * @returns Observable of a Page of users matching the search criteria
+     */
+    searchUsers(query: string, page: number = 0, size: number = 10): Observable<Page<UserResponse>> {
+        return this.searchPage({ query }, page, size, '/search');
+    }
+
+    /**
+     * Changes the role of a user
+     * @param id - User ID to update
+     * @param role - New role
+     * @returns Observable of the updated UserResponse
+     */
+    updateUserRole(id: number, role: Role): Observable<UserResponse> {
+        const request: UserRoleUpdateRequest = { role };
+
+        return this.request(this.http.put<UserResponse>(`${this.apiUrl}/${id}/role`, request), null).pipe(
+            tap(updatedUser => {
+                console.log('User role updated successfully:', updatedUser);
+            })
+        );
+    }
+
+    /**
+     * Deactivates a user so they can no longer sign in
+     * @param id - User ID to deactivate
+     * @returns Observable of the updated UserResponse
+     */
+    deactivateUser(id: number): Observable<UserResponse> {
+        return this.request(this.http.put<UserResponse>(`${this.apiUrl}/${id}/deactivate`, {}), null).pipe(
+            tap(updatedUser => {
+                console.log('User deactivated successfully:', updatedUser);
+            })
+        );
+    }
+
+    /**
+     * Reactivates a previously deactivated user
+     * @param id - User ID to reactivate
+     * @returns Observable of the updated UserResponse
+     */
+    reactivateUser(id: number): Observable<UserResponse> {
+        return this.request(this.http.put<UserResponse>(`${this.apiUrl}/${id}/reactivate`, {}), null).pipe(
+            tap(updatedUser => {
+                console.log('User reactivated successfully:', updatedUser);
+            })
+        );
+    }
+
+    /**
+     * Forces a user to set a new password at their next sign in
+     * @param id - User ID whose password must be reset
+     * @returns Observable of the updated UserResponse
+     */
+    forcePasswordReset(id: number): Observable<UserResponse> {
+        return this.request(this.http.post<UserResponse>(`${this.apiUrl}/${id}/force-password-reset`, {}), null).pipe(
+            tap(updatedUser => {
+                console.log('Password reset forced successfully:', updatedUser);
+            })
+        );
+    }
+}
@@ -0,0 +1,25 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { normalizeHttpError } from './http-error.util';
+
+describe('normalizeHttpError', () => {
+  it('should prefer the backend message from a structured error', () => {
+    const error = new HttpErrorResponse({ status: 400, error: { message: 'Barcode already exists' } });
+    expect(normalizeHttpError(error)).toBe('Barcode already exists');
+  });
+
+  it('should use a plain text error body as is', () => {
+    const error = new HttpErrorResponse({ status: 400, error: 'Quantity must be positive' });
+    expect(normalizeHttpError(error)).toBe('Quantity must be positive');
+  });
+
+  it('should name the resource when it is not found', () => {
+    const error = new HttpErrorResponse({ status: 404 });
+    expect(normalizeHttpError(error, 'Client')).toBe('Client not found');
+  });
+
+  it('should report connection failures', () => {
+    const error = new HttpErrorResponse({ status: 0 });
+    expect(normalizeHttpError(error)).toBe('Unable to connect to server');
+  });
+});
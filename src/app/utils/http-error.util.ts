@@ -0,0 +1,38 @@
+import { HttpErrorResponse } from "@angular/common/http";
+
+/**
+ * Turns an HTTP error into a message that can be shown to the user
+ * Prefers the backend's own message, then falls back to a message for the status code
+ * @param error - HTTP error response
+ * @param resourceName - Resource name used in the not-found message, e.g. 'Client'
+ * @returns User-facing error message
+ */
+export function normalizeHttpError(error: HttpErrorResponse, resourceName: string = 'Resource'): string {
+    if (error.error instanceof ErrorEvent) {
+        // Client-side error
+        return `Client Error: ${error.error.message}`;
+    }
+
+    // Structured error response from backend
+    if (error.error && typeof error.error === 'object' && error.error.message) {
+        return error.error.message;
+    }
+
+    // Plain text error body
+    if (error.error && typeof error.error === 'string') {
+        return error.error;
+    }
+
+    switch (error.status) {
+        case 0:
+            return 'Unable to connect to server';
+        case 403:
+            return 'You do not have permission to perform this action';
+        case 404:
+            return `${resourceName} not found`;
+        case 500:
+            return 'Internal server error';
+        default:
+            return `Server Error: ${error.status} - ${error.message}`;
+    }
+}
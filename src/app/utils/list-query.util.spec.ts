@@ -0,0 +1,37 @@
+import { convertToParamMap } from '@angular/router';
+
+import { readListQuery, toListQueryParams } from './list-query.util';
+
+describe('list query params', () => {
+  it('should read known criteria, page, size and sort', () => {
+    const params = convertToParamMap({ name: 'Acme', other: 'x', page: '3', size: '25', sort: 'name,desc' });
+
+    expect(readListQuery(params, ['name'], 10)).toEqual({
+      criteria: { name: 'Acme' },
+      page: 3,
+      size: 25,
+      sort: 'name,desc'
+    });
+  });
+
+  it('should fall back to defaults for missing or invalid numbers', () => {
+    const params = convertToParamMap({ page: '-2', size: 'abc' });
+
+    const state = readListQuery(params, ['name'], 10);
+    expect(state.page).toBe(1);
+    expect(state.size).toBe(10);
+    expect(state.sort).toBeNull();
+  });
+
+  it('should only accept offered page sizes from the URL', () => {
+    expect(readListQuery(convertToParamMap({ size: '100000' }), [], 10).size).toBe(10);
+    expect(readListQuery(convertToParamMap({ size: '30' }), [], 10).size).toBe(10);
+    expect(readListQuery(convertToParamMap({ size: '30' }), [], 10, [10, 30]).size).toBe(30);
+  });
+
+  it('should leave defaults and empty criteria out of the URL', () => {
+    const queryParams = toListQueryParams({ criteria: { name: '', barcode: 'B1' }, page: 1, size: 10, sort: null }, 10);
+
+    expect(queryParams).toEqual({ barcode: 'B1' });
+  });
+});
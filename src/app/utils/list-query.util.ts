@@ -0,0 +1,104 @@
+import { ActivatedRoute, ParamMap, Params, Router } from "@angular/router";
+import { PAGE_SIZE_OPTIONS } from "../components/shared/pagination/pagination.component";
+import { SearchCriteria } from "../components/shared/search-panel/search-panel.component";
+
+/**
+ * Search, pagination and sort state of a list page, as kept in the URL
+ */
+export interface ListQueryState {
+    criteria: SearchCriteria;
+    page: number; // 1-based, as shown in the UI
+    size: number;
+    sort: string | null; // 'field,asc' or 'field,desc'
+}
+
+/**
+ * Reads list state from query params, ignoring unknown keys and invalid numbers
+ * @param params - Query params of the current route
+ * @param criteriaKeys - Search field keys the page understands
+ * @param defaultSize - Page size when the URL doesn't specify one, or asks for one not offered
+ * @param sizeOptions - Page sizes the page offers
+ * @returns ListQueryState
+ */
+export function readListQuery(params: ParamMap, criteriaKeys: string[], defaultSize: number, sizeOptions: number[] = PAGE_SIZE_OPTIONS): ListQueryState {
+    const criteria: SearchCriteria = {};
+    criteriaKeys.forEach(key => {
+        const value = params.get(key);
+        if (value !== null && value.trim() !== '') {
+            criteria[key] = value;
+        }
+    });
+
+    return {
+        criteria,
+        page: toPositiveInt(params.get('page')) ?? 1,
+        size: toPageSize(params.get('size'), sizeOptions) ?? defaultSize,
+        sort: params.get('sort') || null
+    };
+}
+
+/**
+ * Converts list state to query params, leaving out defaults to keep links short
+ * @param state - List state
+ * @param defaultSize - Page size that doesn't need to be in the URL
+ * @returns Query params for router navigation
+ */
+export function toListQueryParams(state: ListQueryState, defaultSize: number): Params {
+    const queryParams: Params = {};
+    Object.entries(state.criteria).forEach(([key, value]) => {
+        if (value !== null && value !== undefined && value.toString().trim() !== '') {
+            queryParams[key] = value.toString();
+        }
+    });
+    if (state.page > 1) {
+        queryParams['page'] = state.page;
+    }
+    if (state.size !== defaultSize) {
+        queryParams['size'] = state.size;
+    }
+    if (state.sort) {
+        queryParams['sort'] = state.sort;
+    }
+    return queryParams;
+}
+
+/**
+ * Puts list state in the URL; the page reloads when its query params change
+ * If the URL would not change (e.g. searching the same term again), calls reload directly
+ * @param router - Router
+ * @param route - Route of the list page
+ * @param state - New list state
+ * @param defaultSize - Page size that doesn't need to be in the URL
+ * @param reload - Loads the list when navigation would be a no-op
+ */
+export function navigateToListQuery(
+    router: Router,
+    route: ActivatedRoute,
+    state: ListQueryState,
+    defaultSize: number,
+    reload: () => void
+): void {
+    const urlTree = router.createUrlTree([], { relativeTo: route, queryParams: toListQueryParams(state, defaultSize) });
+
+    if (router.serializeUrl(urlTree) === router.url) {
+        reload();
+        return;
+    }
+    router.navigateByUrl(urlTree);
+}
+
+/**
+ * Parses a page size query param, accepting only offered sizes so a link can't ask for an unbounded page
+ */
+function toPageSize(value: string | null, sizeOptions: number[]): number | null {
+    const size = toPositiveInt(value);
+    return size !== null && sizeOptions.includes(size) ? size : null;
+}
+
+/**
+ * Parses a positive integer query param
+ */
+function toPositiveInt(value: string | null): number | null {
+    const parsed = value ? Number(value) : NaN;
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
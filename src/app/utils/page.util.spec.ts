@@ -0,0 +1,27 @@
+import { toPage } from './page.util';
+
+describe('toPage', () => {
+  it('should pass a page envelope through', () => {
+    const page = toPage({ content: [1, 2], totalElements: 42, totalPages: 5 }, 0, 10);
+
+    expect(page.content).toEqual([1, 2]);
+    expect(page.totalElements).toBe(42);
+    expect(page.totalPages).toBe(5);
+    expect(page.estimated).toBeUndefined();
+  });
+
+  it('should treat a short bare array as the last page', () => {
+    const page = toPage([1, 2, 3], 2, 10);
+
+    expect(page.totalElements).toBe(23);
+    expect(page.totalPages).toBe(3);
+    expect(page.estimated).toBeTrue();
+  });
+
+  it('should allow one more page after a full bare array', () => {
+    const page = toPage([1, 2], 0, 2);
+
+    expect(page.totalElements).toBe(3);
+    expect(page.totalPages).toBe(2);
+  });
+});
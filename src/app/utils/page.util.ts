@@ -0,0 +1,32 @@
+import { Page } from "../models/api.model";
+
+/**
+ * Normalizes a paged response into a Page
+ * Older endpoints return a bare array; totals are then inferred from the page that came back:
+ * a full page means there is at least one more item, a short page is the last one
+ * @param response - Page envelope or bare array from the backend
+ * @param page - Requested page number (0-based)
+ * @param size - Requested page size
+ * @returns Page with content and totals
+ */
+export function toPage<T>(response: Page<T> | T[], page: number, size: number): Page<T> {
+    if (!Array.isArray(response)) {
+        const content = response.content ?? [];
+        const totalElements = response.totalElements ?? content.length;
+        return {
+            content,
+            totalElements,
+            totalPages: response.totalPages ?? Math.ceil(totalElements / size)
+        };
+    }
+
+    const hasMore = response.length >= size;
+    const totalElements = page * size + response.length + (hasMore ? 1 : 0);
+
+    return {
+        content: response,
+        totalElements,
+        totalPages: Math.ceil(totalElements / size),
+        estimated: true
+    };
+}
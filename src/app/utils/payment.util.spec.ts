@@ -0,0 +1,31 @@
+import { getTenderError, summarizeTenders } from './payment.util';
+
+describe('payment', () => {
+  it('should give change on cash paid beyond the amount due', () => {
+    expect(summarizeTenders([{ method: 'CASH', amount: 500 }], 432.5)).toEqual({
+      paid: 500, cash: 500, remaining: 0, change: 67.5
+    });
+  });
+
+  it('should add up split tenders', () => {
+    expect(summarizeTenders([
+      { method: 'UPI', amount: 300 },
+      { method: 'CARD', amount: 100.1 },
+      { method: 'CASH', amount: 0.2 }
+    ], 450)).toEqual({ paid: 400.3, cash: 0.2, remaining: 49.7, change: 0 });
+  });
+
+  it('should accept tenders that settle the amount due', () => {
+    expect(getTenderError([{ method: 'CARD', amount: 250 }], 250)).toBeNull();
+    expect(getTenderError([{ method: 'UPI', amount: 200 }, { method: 'CASH', amount: 100 }], 250)).toBeNull();
+  });
+
+  it('should reject missing, short and non-cash overpaid tenders', () => {
+    expect(getTenderError([], 100)).toBe('Add at least one tender');
+    expect(getTenderError([{ method: 'CASH', amount: 0 }], 100)).toBe('Each tender needs an amount greater than 0');
+    expect(getTenderError([{ method: 'CASH', amount: 60 }], 100)).toBe('₹40.00 is still to be paid');
+    expect(getTenderError([{ method: 'CARD', amount: 120 }], 100)).toBe('Card and UPI tenders cannot exceed the amount due');
+    expect(getTenderError([{ method: 'UPI', amount: 90 }, { method: 'CASH', amount: 5 }, { method: 'CARD', amount: 20 }], 100))
+      .toBe('Card and UPI tenders cannot exceed the amount due');
+  });
+});
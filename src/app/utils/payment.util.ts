@@ -0,0 +1,48 @@
+import { PaymentTender, TenderSummary } from "../models/payment.model";
+import { roundCurrency } from "./pricing.util";
+
+/**
+ * Adds up the tenders of a payment
+ * Only cash can be overpaid, so the change is what is paid beyond the amount due
+ * @param tenders - Tenders entered so far
+ * @param amountDue - Order total
+ * @returns Paid, cash, remaining and change amounts
+ */
+export function summarizeTenders(tenders: PaymentTender[], amountDue: number): TenderSummary {
+    const amountOf = (tender: PaymentTender) => Number.isFinite(tender.amount) && tender.amount > 0 ? tender.amount : 0;
+    const paid = roundCurrency(tenders.reduce((sum, tender) => sum + amountOf(tender), 0));
+    const cash = roundCurrency(tenders
+        .filter(tender => tender.method === "CASH")
+        .reduce((sum, tender) => sum + amountOf(tender), 0));
+
+    return {
+        paid,
+        cash,
+        remaining: roundCurrency(Math.max(0, amountDue - paid)),
+        change: roundCurrency(Math.max(0, paid - amountDue))
+    };
+}
+
+/**
+ * Checks that tenders settle the amount due
+ * @param tenders - Tenders to check
+ * @param amountDue - Order total
+ * @returns Error message, or null when the payment can be recorded
+ */
+export function getTenderError(tenders: PaymentTender[], amountDue: number): string | null {
+    if (tenders.length === 0) {
+        return "Add at least one tender";
+    }
+    if (tenders.some(tender => !Number.isFinite(tender.amount) || tender.amount <= 0)) {
+        return "Each tender needs an amount greater than 0";
+    }
+
+    const summary = summarizeTenders(tenders, amountDue);
+    if (summary.remaining > 0) {
+        return `₹${summary.remaining.toFixed(2)} is still to be paid`;
+    }
+    if (summary.change > summary.cash) {
+        return "Card and UPI tenders cannot exceed the amount due";
+    }
+    return null;
+}
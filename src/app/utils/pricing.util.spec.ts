@@ -0,0 +1,93 @@
+import { applyTax, calculateLine, calculateOrder, discountAmount, discountPercent, foldOrderDiscount, isValidHsnCode, roundCurrency, summarizeOrder } from './pricing.util';
+
+describe('pricing', () => {
+  it('should round amounts to paise', () => {
+    expect(roundCurrency(10.456)).toBe(10.46);
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it('should work out percentage and fixed discounts, capped at the base', () => {
+    expect(discountAmount(200, { type: 'PERCENT', value: 12.5 })).toBe(25);
+    expect(discountAmount(200, { type: 'FIXED', value: 30 })).toBe(30);
+    expect(discountAmount(20, { type: 'FIXED', value: 30 })).toBe(20);
+    expect(discountAmount(200, null)).toBe(0);
+    expect(discountAmount(200, { type: 'PERCENT', value: -5 })).toBe(0);
+  });
+
+  it('should price a line', () => {
+    expect(calculateLine({ price: 49.99, quantity: 3, discount: { type: 'PERCENT', value: 10 } })).toEqual({
+      gross: 149.97, discount: 15, net: 134.97, taxable: 134.97, cgst: 0, sgst: 0, igst: 0, tax: 0, total: 134.97
+    });
+  });
+
+  it('should apply the order discount after line discounts', () => {
+    const { lines, ...totals } = calculateOrder([
+      { price: 100, quantity: 2, discount: { type: 'FIXED', value: 20 } },
+      { price: 50, quantity: 1 }
+    ], { type: 'PERCENT', value: 10 });
+
+    expect(totals).toEqual({
+      subtotal: 250, lineDiscount: 20, orderDiscount: 23, discount: 43,
+      taxable: 207, cgst: 0, sgst: 0, igst: 0, tax: 0, total: 207
+    });
+    expect(lines.map(line => line.discount)).toEqual([38, 5]);
+  });
+
+  it('should take tax out of inclusive prices and split it into CGST and SGST', () => {
+    expect(applyTax(118, 18, { mode: 'INCLUSIVE', interState: false }))
+      .toEqual({ taxable: 100, cgst: 9, sgst: 9, igst: 0, tax: 18, total: 118 });
+  });
+
+  it('should add tax to exclusive prices as IGST for inter-state sales', () => {
+    expect(applyTax(100, 12, { mode: 'EXCLUSIVE', interState: true }))
+      .toEqual({ taxable: 100, cgst: 0, sgst: 0, igst: 12, tax: 12, total: 112 });
+  });
+
+  it('should tax each line at its own rate after sharing the order discount', () => {
+    const totals = calculateOrder([
+      { price: 118, quantity: 1, taxRate: 18 },
+      { price: 105, quantity: 1, taxRate: 5 }
+    ], { type: 'FIXED', value: 22.3 }, { mode: 'INCLUSIVE', interState: false });
+
+    expect(totals.lines.map(line => line.net)).toEqual([106.2, 94.5]);
+    expect(totals.taxable).toBe(180);
+    expect(totals.cgst).toBe(10.35);
+    expect(totals.sgst).toBe(10.35);
+    expect(totals.tax).toBe(20.7);
+    expect(totals.total).toBe(200.7);
+  });
+
+  it('should move the order discount onto the items without changing the total', () => {
+    const items = [
+      { barcode: 'A', mrp: 100, quantity: 2, discount: { type: 'FIXED' as const, value: 20 } },
+      { barcode: 'B', mrp: 50, quantity: 1 }
+    ];
+
+    expect(foldOrderDiscount(items, { type: 'PERCENT', value: 10 })).toEqual([
+      { barcode: 'A', mrp: 100, quantity: 2, discount: { type: 'FIXED', value: 38 } },
+      { barcode: 'B', mrp: 50, quantity: 1, discount: { type: 'FIXED', value: 5 } }
+    ]);
+    expect(foldOrderDiscount(items, null)).toBe(items);
+  });
+
+  it('should summarize a saved order from returned amounts', () => {
+    const totals = summarizeOrder([
+      { sellingPrice: 100, quantity: 2, discountAmount: 20 },
+      { sellingPrice: 50, quantity: 1 }
+    ], 23);
+
+    expect(totals.total).toBe(207);
+    expect(discountPercent(totals.discount, totals.subtotal)).toBeCloseTo(17.2);
+
+    const taxed = summarizeOrder([{ sellingPrice: 100, quantity: 2, taxAmount: 36 }], 0, { mode: 'EXCLUSIVE', interState: false });
+    expect(taxed.cgst).toBe(18);
+    expect(taxed.total).toBe(236);
+  });
+
+  it('should accept HSN codes of 4 to 8 digits', () => {
+    expect(isValidHsnCode('0401')).toBeTrue();
+    expect(isValidHsnCode('04011000')).toBeTrue();
+    expect(isValidHsnCode('040')).toBeFalse();
+    expect(isValidHsnCode('04A1')).toBeFalse();
+  });
+});
@@ -0,0 +1,252 @@
+import { Discount, OrderItemForm, TaxMode } from "../models/order.model";
+
+/**
+ * GST slabs offered when setting a product's tax rate, in percent
+ */
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+/**
+ * GST split of a tax amount
+ * Sales within the state pay CGST and SGST in equal halves; inter-state sales pay IGST
+ */
+export interface TaxBreakdown {
+    cgst: number;
+    sgst: number;
+    igst: number;
+    tax: number;
+}
+
+/**
+ * How tax is applied to an order
+ */
+export interface TaxOptions {
+    mode: TaxMode; // Whether selling prices already include tax
+    interState: boolean;
+}
+
+/**
+ * Amounts of one order line
+ */
+export interface LineAmounts extends TaxBreakdown {
+    gross: number; // Price x quantity
+    discount: number; // Line discount plus its share of the order discount
+    net: number; // Gross less discount
+    taxable: number; // Net without tax
+    total: number; // Amount payable for the line
+}
+
+/**
+ * Price, quantity, discount and tax rate of one line to be priced
+ */
+export interface PricedLine {
+    price: number;
+    quantity: number;
+    discount?: Discount | null;
+    taxRate?: number | null; // Percent
+}
+
+/**
+ * Totals breakdown of an order
+ */
+export interface OrderTotals extends TaxBreakdown {
+    subtotal: number; // Sum of line gross amounts
+    lineDiscount: number;
+    orderDiscount: number;
+    discount: number; // Line and order discounts together
+    taxable: number;
+    total: number;
+}
+
+const DEFAULT_TAX_OPTIONS: TaxOptions = { mode: 'INCLUSIVE', interState: false };
+
+/**
+ * Tax options a saved order was created with; orders saved before GST count as inclusive
+ * @param order - Order with optional tax mode and supply type
+ * @returns Tax options
+ */
+export function taxOptionsOf(order: { taxMode?: TaxMode; interState?: boolean }): TaxOptions {
+    return { mode: order.taxMode ?? 'INCLUSIVE', interState: !!order.interState };
+}
+
+/**
+ * Rounds an amount to paise
+ * @param value - Amount in rupees
+ * @returns Amount with at most two decimals
+ */
+export function roundCurrency(value: number): number {
+    return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Works out the rupee amount of a discount, never more than the amount it applies to
+ * @param base - Amount the discount applies to
+ * @param discount - Percentage or fixed discount; empty means none
+ * @returns Discount in rupees
+ */
+export function discountAmount(base: number, discount?: Discount | null): number {
+    const value = Number(discount?.value);
+    if (!discount || !value || value < 0 || base <= 0) {
+        return 0;
+    }
+    const amount = discount.type === 'PERCENT' ? base * value / 100 : value;
+    return roundCurrency(Math.min(amount, base));
+}
+
+/**
+ * Splits a tax amount into CGST/SGST or IGST
+ * @param tax - Tax in rupees
+ * @param interState - Whether the sale crosses state lines
+ * @returns Tax breakdown
+ */
+export function splitTax(tax: number, interState: boolean): TaxBreakdown {
+    const total = roundCurrency(tax);
+    if (interState) {
+        return { cgst: 0, sgst: 0, igst: total, tax: total };
+    }
+    const cgst = roundCurrency(total / 2);
+    return { cgst, sgst: roundCurrency(total - cgst), igst: 0, tax: total };
+}
+
+/**
+ * Taxes an amount after discounts
+ * @param net - Amount after discounts
+ * @param rate - Tax rate in percent
+ * @param options - Price mode and supply type
+ * @returns Taxable value, tax breakdown and amount payable
+ */
+export function applyTax(net: number, rate: number | null | undefined, options: TaxOptions = DEFAULT_TAX_OPTIONS): TaxBreakdown & { taxable: number; total: number } {
+    const taxRate = Math.max(Number(rate) || 0, 0);
+    if (options.mode === 'INCLUSIVE') {
+        const taxable = roundCurrency(net / (1 + taxRate / 100));
+        return { ...splitTax(net - taxable, options.interState), taxable, total: roundCurrency(net) };
+    }
+    const breakdown = splitTax(net * taxRate / 100, options.interState);
+    return { ...breakdown, taxable: roundCurrency(net), total: roundCurrency(net + breakdown.tax) };
+}
+
+/**
+ * Prices one line on its own (no order discount)
+ * @param line - Price, quantity, discount and tax rate
+ * @param options - Price mode and supply type
+ * @returns Line amounts
+ */
+export function calculateLine(line: PricedLine, options: TaxOptions = DEFAULT_TAX_OPTIONS): LineAmounts {
+    const gross = roundCurrency(Number(line.price) * Number(line.quantity) || 0);
+    const discount = discountAmount(gross, line.discount);
+    const net = roundCurrency(gross - discount);
+    return { gross, discount, net, ...applyTax(net, line.taxRate, options) };
+}
+
+/**
+ * Prices an order: line discounts first, then the order discount on what remains
+ * The order discount is shared across lines in proportion to their amounts so each
+ * line is taxed at its own rate
+ * @param lines - Lines to price
+ * @param orderDiscount - Discount on the whole order
+ * @param options - Price mode and supply type
+ * @returns Totals breakdown and the amounts of each line
+ */
+export function calculateOrder(lines: PricedLine[], orderDiscount?: Discount | null, options: TaxOptions = DEFAULT_TAX_OPTIONS): OrderTotals & { lines: LineAmounts[] } {
+    const beforeOrderDiscount = lines.map(line => calculateLine(line, options));
+    const subtotal = roundCurrency(beforeOrderDiscount.reduce((sum, line) => sum + line.gross, 0));
+    const lineDiscount = roundCurrency(beforeOrderDiscount.reduce((sum, line) => sum + line.discount, 0));
+    const afterLineDiscounts = roundCurrency(subtotal - lineDiscount);
+    const orderDiscountAmount = discountAmount(afterLineDiscounts, orderDiscount);
+
+    // Share the order discount; the last discounted line takes the rounding remainder
+    let remaining = orderDiscountAmount;
+    const lastIndex = beforeOrderDiscount.reduce((last, line, index) => line.net > 0 ? index : last, -1);
+    const amounts = beforeOrderDiscount.map((line, index) => {
+        if (!orderDiscountAmount || line.net <= 0) {
+            return line;
+        }
+        const share = index === lastIndex ? remaining : roundCurrency(orderDiscountAmount * line.net / afterLineDiscounts);
+        remaining = roundCurrency(remaining - share);
+        const net = roundCurrency(line.net - share);
+        return { ...line, discount: roundCurrency(line.discount + share), net, ...applyTax(net, lines[index].taxRate, options) };
+    });
+
+    const sum = (pick: (line: LineAmounts) => number) => roundCurrency(amounts.reduce((total, line) => total + pick(line), 0));
+
+    return {
+        subtotal,
+        lineDiscount,
+        orderDiscount: orderDiscountAmount,
+        discount: roundCurrency(lineDiscount + orderDiscountAmount),
+        taxable: sum(line => line.taxable),
+        cgst: sum(line => line.cgst),
+        sgst: sum(line => line.sgst),
+        igst: sum(line => line.igst),
+        tax: sum(line => line.tax),
+        total: sum(line => line.total),
+        lines: amounts
+    };
+}
+
+/**
+ * Moves an order discount onto the items, for backends that only take line discounts
+ * Each item gets its line discount plus its share of the order discount as a fixed amount,
+ * so the order total is unchanged
+ * @param items - Order items with optional line discounts
+ * @param orderDiscount - Discount on the whole order
+ * @returns Items carrying the whole discount
+ */
+export function foldOrderDiscount(items: OrderItemForm[], orderDiscount?: Discount | null): OrderItemForm[] {
+    if (!orderDiscount || !Number(orderDiscount.value)) {
+        return items;
+    }
+    const { lines } = calculateOrder(items.map(item => ({ price: item.mrp, quantity: item.quantity, discount: item.discount })), orderDiscount);
+    return items.map((item, index) => ({
+        ...item,
+        discount: lines[index].discount > 0 ? { type: 'FIXED', value: lines[index].discount } : null
+    }));
+}
+
+/**
+ * Totals of a saved order from the amounts the backend returned
+ * @param items - Order items with selling price and optional discount and tax amounts
+ * @param orderDiscount - Order-level discount in rupees
+ * @param options - Price mode and supply type the order was created with
+ * @returns Totals breakdown
+ */
+export function summarizeOrder(
+    items: { sellingPrice: number; quantity: number; discountAmount?: number; taxAmount?: number }[],
+    orderDiscount: number = 0,
+    options: TaxOptions = DEFAULT_TAX_OPTIONS
+): OrderTotals {
+    const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.sellingPrice * item.quantity, 0));
+    const lineDiscount = roundCurrency(items.reduce((sum, item) => sum + (item.discountAmount ?? 0), 0));
+    const discount = roundCurrency(lineDiscount + orderDiscount);
+    const net = roundCurrency(subtotal - discount);
+    const breakdown = splitTax(items.reduce((sum, item) => sum + (item.taxAmount ?? 0), 0), options.interState);
+    const inclusive = options.mode === 'INCLUSIVE';
+
+    return {
+        subtotal,
+        lineDiscount,
+        orderDiscount: roundCurrency(orderDiscount),
+        discount,
+        ...breakdown,
+        taxable: inclusive ? roundCurrency(net - breakdown.tax) : net,
+        total: inclusive ? net : roundCurrency(net + breakdown.tax)
+    };
+}
+
+/**
+ * Share of an amount taken off by a discount
+ * @param discount - Discount in rupees
+ * @param base - Amount before the discount
+ * @returns Percentage, 0 when the base is 0
+ */
+export function discountPercent(discount: number, base: number): number {
+    return base > 0 ? discount / base * 100 : 0;
+}
+
+/**
+ * Checks an HSN code: 4 to 8 digits
+ * @param code - HSN code
+ * @returns True if the code is well formed
+ */
+export function isValidHsnCode(code: string): boolean {
+    return /^\d{4,8}$/.test(code.trim());
+}
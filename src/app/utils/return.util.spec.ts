@@ -0,0 +1,42 @@
+import { OrderItemResponse } from '../models/order.model';
+import { ReturnResponse } from '../models/return.model';
+import { estimateRefund, getReturnError, getReturnableQuantity, getReturnedQuantities } from './return.util';
+
+describe('returns', () => {
+  const items: OrderItemResponse[] = [
+    { id: 1, orderId: 9, productId: 4, quantity: 2, sellingPrice: 100, discountAmount: 20 },
+    { id: 2, orderId: 9, productId: 5, quantity: 1, sellingPrice: 50 }
+  ];
+  const options = { mode: 'INCLUSIVE' as const, interState: false };
+
+  const earlierReturn = (orderItemId: number, quantity: number): ReturnResponse => ({
+    id: orderItemId * 10, orderId: 9, time: '', reason: 'Damaged', creditNoteNumber: 'CN-1', amount: 0,
+    items: [{ id: 1, orderItemId, productId: 4, quantity, amount: 0 }]
+  });
+
+  it('should cap returns at the sold quantity less earlier returns', () => {
+    const returned = getReturnedQuantities([earlierReturn(1, 1), earlierReturn(1, 0), earlierReturn(2, 1)]);
+
+    expect(returned).toEqual({ 1: 1, 2: 1 });
+    expect(getReturnableQuantity(items[0], returned)).toBe(1);
+    expect(getReturnableQuantity(items[1], returned)).toBe(0);
+    expect(getReturnableQuantity(items[0], {})).toBe(2);
+  });
+
+  it('should refund what was paid per unit, after the order discount', () => {
+    expect(estimateRefund(items, 23, options, { 1: 1 })).toBe(81);
+    expect(estimateRefund(items, 23, options, { 1: 1, 2: 1 })).toBe(126);
+    expect(estimateRefund(items, 0, options, { 1: 2, 2: 1 })).toBe(230);
+    expect(estimateRefund(items, 0, options, {})).toBe(0);
+  });
+
+  it('should reject empty, fractional and over-returned quantities and a missing reason', () => {
+    const returned = { 1: 1 };
+
+    expect(getReturnError(items, returned, { 1: 1 }, 'Damaged')).toBeNull();
+    expect(getReturnError(items, returned, { 1: 2 }, 'Damaged')).toBe('Only 1 of item 1 can be returned');
+    expect(getReturnError(items, returned, { 2: 0.5 }, 'Damaged')).toBe('Return quantities must be whole numbers');
+    expect(getReturnError(items, returned, {}, 'Damaged')).toBe('Select at least one item to return');
+    expect(getReturnError(items, returned, { 2: 1 }, '  ')).toBe('Enter a reason for the return');
+  });
+});
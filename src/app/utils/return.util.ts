@@ -0,0 +1,89 @@
+import { OrderItemResponse } from "../models/order.model";
+import { ReturnResponse } from "../models/return.model";
+import { TaxOptions, roundCurrency, summarizeOrder } from "./pricing.util";
+
+/**
+ * Adds up what earlier returns took back of each order item
+ * @param returns - Returns of one order
+ * @returns Returned quantity by order item ID
+ */
+export function getReturnedQuantities(returns: ReturnResponse[]): { [orderItemId: number]: number } {
+    const returned: { [orderItemId: number]: number } = {};
+    returns.forEach(entry => entry.items.forEach(item => {
+        returned[item.orderItemId] = (returned[item.orderItemId] ?? 0) + item.quantity;
+    }));
+    return returned;
+}
+
+/**
+ * How much of an order item can still be returned
+ * @param item - Order item
+ * @param returned - Returned quantity by order item ID
+ * @returns Sold quantity less what was already returned
+ */
+export function getReturnableQuantity(item: { id: number; quantity: number }, returned: { [orderItemId: number]: number }): number {
+    return Math.max(0, item.quantity - (returned[item.id] ?? 0));
+}
+
+/**
+ * Estimates the refund for returning part of an order
+ * Each unit is refunded at what was paid for it, including GST and its share of the order discount;
+ * the backend works out the final amount on the credit note
+ * @param items - Order items
+ * @param orderDiscount - Order-level discount in rupees
+ * @param options - Price mode and supply type of the order
+ * @param quantities - Quantity to return by order item ID
+ * @returns Refund in rupees
+ */
+export function estimateRefund(
+    items: OrderItemResponse[],
+    orderDiscount: number,
+    options: TaxOptions,
+    quantities: { [orderItemId: number]: number }
+): number {
+    const lineTotals = items.map(item => summarizeOrder([item], 0, options).total);
+    const beforeOrderDiscount = lineTotals.reduce((sum, total) => sum + total, 0);
+    if (beforeOrderDiscount <= 0) {
+        return 0;
+    }
+
+    const share = summarizeOrder(items, orderDiscount, options).total / beforeOrderDiscount;
+    const refund = items.reduce((sum, item, index) => {
+        const quantity = quantities[item.id] ?? 0;
+        return item.quantity > 0 ? sum + lineTotals[index] * quantity / item.quantity : sum;
+    }, 0);
+    return roundCurrency(refund * share);
+}
+
+/**
+ * Checks a return before it is sent
+ * @param items - Order items
+ * @param returned - Quantity already returned by order item ID
+ * @param quantities - Quantity to return by order item ID
+ * @param reason - Reason given for the return
+ * @returns Error message, or null when the return can be sent
+ */
+export function getReturnError(
+    items: OrderItemResponse[],
+    returned: { [orderItemId: number]: number },
+    quantities: { [orderItemId: number]: number },
+    reason: string
+): string | null {
+    for (let index = 0; index < items.length; index++) {
+        const quantity = quantities[items[index].id] ?? 0;
+        if (!Number.isInteger(quantity) || quantity < 0) {
+            return "Return quantities must be whole numbers";
+        }
+        const returnable = getReturnableQuantity(items[index], returned);
+        if (quantity > returnable) {
+            return `Only ${returnable} of item ${index + 1} can be returned`;
+        }
+    }
+    if (!items.some(item => (quantities[item.id] ?? 0) > 0)) {
+        return "Select at least one item to return";
+    }
+    if (!reason.trim()) {
+        return "Enter a reason for the return";
+    }
+    return null;
+}
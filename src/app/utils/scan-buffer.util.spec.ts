@@ -0,0 +1,51 @@
+import { ScanBuffer } from './scan-buffer.util';
+
+describe('ScanBuffer', () => {
+  const feed = (buffer: ScanBuffer, keys: string[], start: number, gap: number): (string | null)[] =>
+    keys.map((key, index) => buffer.push(key, start + index * gap));
+
+  it('should return the barcode of a fast burst ending with Enter', () => {
+    const buffer = new ScanBuffer(50, 3);
+    const results = feed(buffer, ['8', '9', '0', '1', 'Enter'], 1000, 10);
+
+    expect(results.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(results[4]).toBe('8901');
+  });
+
+  it('should ignore slow typing', () => {
+    const buffer = new ScanBuffer(50, 3);
+    const results = feed(buffer, ['8', '9', '0', '1', 'Enter'], 1000, 200);
+
+    expect(results[4]).toBeNull();
+  });
+
+  it('should start a new burst after a pause', () => {
+    const buffer = new ScanBuffer(50, 3);
+    buffer.push('x', 0);
+    const results = feed(buffer, ['A', 'B', 'C', 'Enter'], 1000, 5);
+
+    expect(results[3]).toBe('ABC');
+  });
+
+  it('should reject bursts shorter than the minimum length', () => {
+    const buffer = new ScanBuffer(50, 3);
+    const results = feed(buffer, ['1', '2', 'Enter'], 0, 5);
+
+    expect(results[2]).toBeNull();
+  });
+
+  it('should keep upper-case characters typed with Shift', () => {
+    const buffer = new ScanBuffer(50, 3);
+    const results = feed(buffer, ['Shift', 'A', 'Shift', 'B', '1', 'Enter'], 0, 5);
+
+    expect(results[5]).toBe('AB1');
+  });
+
+  it('should drop a burst interrupted by a non-character key', () => {
+    const buffer = new ScanBuffer(50, 3);
+    feed(buffer, ['1', '2', '3'], 0, 5);
+    buffer.push('ArrowDown', 15);
+
+    expect(buffer.push('Enter', 20)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "AltGraph", "Meta", "CapsLock"];
+
+/**
+ * Collects keystrokes from a keyboard-wedge barcode scanner
+ * Scanners "type" the barcode as a fast burst of keys ending with Enter; a burst is
+ * recognised by the gap between keys, so slow human typing never counts as a scan
+ */
+export class ScanBuffer {
+    private chars = "";
+    private lastKeyAt = 0;
+
+    /**
+     * @param maxKeyGapMs - Longest gap between two keys of the same burst
+     * @param minLength - Shortest barcode accepted
+     */
+    constructor(private readonly maxKeyGapMs: number = 50, private readonly minLength: number = 3) {}
+
+    /**
+     * Feeds one key into the buffer
+     * @param key - KeyboardEvent.key
+     * @param timestamp - Time of the key in milliseconds
+     * @returns The scanned barcode when Enter ends a burst, else null
+     */
+    push(key: string, timestamp: number): string | null {
+        if (key === "Enter") {
+            const isBurst = timestamp - this.lastKeyAt <= this.maxKeyGapMs;
+            const barcode = this.chars;
+            this.reset();
+            return isBurst && barcode.length >= this.minLength ? barcode : null;
+        }
+
+        if (MODIFIER_KEYS.includes(key)) {
+            // Scanners press Shift for upper-case characters
+            return null;
+        }
+
+        if (key.length !== 1) {
+            // Arrow, function or editing key: not part of a scan
+            this.reset();
+            return null;
+        }
+
+        this.chars = timestamp - this.lastKeyAt <= this.maxKeyGapMs ? this.chars + key : key;
+        this.lastKeyAt = timestamp;
+        return null;
+    }
+
+    /**
+     * Whether keys are arriving fast enough to be a scan in progress
+     * @param timestamp - Current time in milliseconds
+     */
+    isScanning(timestamp: number): boolean {
+        return this.chars.length > 1 && timestamp - this.lastKeyAt <= this.maxKeyGapMs;
+    }
+
+    /**
+     * Drops any partial burst
+     */
+    reset(): void {
+        this.chars = "";
+        this.lastKeyAt = 0;
+    }
+}
@@ -0,0 +1,53 @@
+import { crc32, createZip } from './zip.util';
+
+describe('zip', () => {
+  const encoder = new TextEncoder();
+  const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xCBF43926);
+    expect(crc32(encoder.encode('hello'))).toBe(0x3610A686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should write an empty archive as just the end record', () => {
+    const zip = createZip([]);
+
+    expect(zip.length).toBe(22);
+    expect(view(zip).getUint32(0, true)).toBe(0x06054B50);
+  });
+
+  it('should store files with headers, a central directory and an end record', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: encoder.encode('hello'), modified: new Date(2024, 0, 15, 10, 30, 20) },
+      { name: 'b.txt', data: encoder.encode('world!') }
+    ]);
+    const bytes = view(zip);
+
+    // Local header of the first file, followed by its name and stored data
+    expect(bytes.getUint32(0, true)).toBe(0x04034B50);
+    expect(bytes.getUint16(8, true)).toBe(0);
+    expect(bytes.getUint16(10, true)).toBe((10 << 11) | (30 << 5) | 10);
+    expect(bytes.getUint16(12, true)).toBe((44 << 9) | (1 << 5) | 15);
+    expect(bytes.getUint32(14, true)).toBe(0x3610A686);
+    expect(bytes.getUint32(18, true)).toBe(5);
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('hello');
+
+    // Second local header starts right after the first file
+    expect(bytes.getUint32(40, true)).toBe(0x04034B50);
+
+    // Central directory after both files, pointing back at each local header
+    const centralOffset = 40 + 30 + 5 + 6;
+    expect(bytes.getUint32(centralOffset, true)).toBe(0x02014B50);
+    expect(bytes.getUint32(centralOffset + 42, true)).toBe(0);
+    expect(bytes.getUint32(centralOffset + 46 + 5 + 42, true)).toBe(40);
+
+    const end = zip.length - 22;
+    expect(bytes.getUint32(end, true)).toBe(0x06054B50);
+    expect(bytes.getUint16(end + 10, true)).toBe(2);
+    expect(bytes.getUint32(end + 12, true)).toBe((46 + 5) * 2);
+    expect(bytes.getUint32(end + 16, true)).toBe(centralOffset);
+    expect(zip.length).toBe(centralOffset + (46 + 5) * 2 + 22);
+  });
+});
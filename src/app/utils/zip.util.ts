@@ -0,0 +1,126 @@
+/**
+ * File to put in a ZIP archive
+ */
+export interface ZipEntry {
+    name: string; // Path inside the archive, e.g. 'invoice_12.pdf'
+    data: Uint8Array;
+    modified?: Date;
+}
+
+// ZIP format limits without the Zip64 extension
+const MAX_ENTRIES = 0xFFFF;
+const MAX_SIZE = 0xFFFFFFFF;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 checksum (IEEE polynomial) as used by ZIP
+ * @param data - Bytes to checksum
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Builds a ZIP archive with the files stored uncompressed
+ * PDFs are already compressed, so storing keeps the writer small at little cost in size
+ * @param entries - Files to add, in archive order
+ * @returns Archive bytes
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+    if (entries.length > MAX_ENTRIES) {
+        throw new Error(`A ZIP file can hold at most ${MAX_ENTRIES} files`);
+    }
+
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const checksum = crc32(entry.data);
+        const { time, date } = toDosDateTime(entry.modified ?? new Date());
+        if (entry.data.length > MAX_SIZE || offset > MAX_SIZE) {
+            throw new Error('The ZIP file would be larger than 4 GB');
+        }
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true); // Local file header signature
+        local.setUint16(4, 20, true); // Version needed to extract (2.0)
+        local.setUint16(6, 0x0800, true); // Flags: file name is UTF-8
+        local.setUint16(8, 0, true); // Method: stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, checksum, true);
+        local.setUint32(18, entry.data.length, true); // Compressed size
+        local.setUint32(22, entry.data.length, true); // Uncompressed size
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // Extra field length
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014B50, true); // Central directory header signature
+        central.setUint16(4, 20, true); // Version made by
+        central.setUint16(6, 20, true); // Version needed to extract
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, checksum, true);
+        central.setUint32(20, entry.data.length, true);
+        central.setUint32(24, entry.data.length, true);
+        central.setUint16(28, name.length, true);
+        // Extra field, comment, disk number and attributes stay 0
+        central.setUint32(42, offset, true); // Offset of the local header
+
+        localParts.push(new Uint8Array(local.buffer), name, entry.data);
+        centralParts.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + entry.data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true); // End of central directory signature
+    end.setUint16(8, entries.length, true); // Entries on this disk
+    end.setUint16(10, entries.length, true); // Entries in total
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true); // Offset of the central directory
+
+    return concatBytes([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Packs a date into the MS-DOS time and date fields ZIP uses (local time, 2-second steps)
+ */
+function toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.min(Math.max(value.getFullYear(), 1980), 2107);
+    return {
+        time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+    };
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+        result.set(part, position);
+        position += part.length;
+    });
+    return result;
+}
@@ -0,0 +1,29 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Form group validator requiring two password controls to match
+ * Sets a `passwordMismatch` error on the confirmation control so it shows inline
+ * @param passwordKey - Name of the new password control
+ * @param confirmKey - Name of the confirmation control
+ * @returns ValidatorFn for the form group
+ */
+export function passwordMatchValidator(passwordKey: string, confirmKey: string): ValidatorFn {
+  return (group: AbstractControl): ValidationErrors | null => {
+    const password = group.get(passwordKey);
+    const confirm = group.get(confirmKey);
+    if (!password || !confirm) {
+      return null;
+    }
+
+    const mismatch = !!confirm.value && password.value !== confirm.value;
+    const { passwordMismatch, ...otherErrors } = confirm.errors ?? {};
+
+    if (mismatch) {
+      confirm.setErrors({ ...otherErrors, passwordMismatch: true });
+    } else if (passwordMismatch) {
+      confirm.setErrors(Object.keys(otherErrors).length > 0 ? otherErrors : null);
+    }
+
+    return mismatch ? { passwordMismatch: true } : null;
+  };
+}